@@ -6,6 +6,7 @@
 //  Replaces direct OpenRouter API calls
 //
 
+import CryptoKit
 import Foundation
 
 class BackendAPIClient {
@@ -18,28 +19,167 @@ class BackendAPIClient {
     // Note: This is safe to hardcode as it's just an app identifier (like a User-Agent).
     // Real security is server-side with rate limiting, IP tracking, and secret rotation.
     // iOS apps can always be decompiled, so no true secrets should ever be in client code.
+    // Only sent to /api/session, every other route uses the short-lived session token
     private let appKey = "insightrun-LEtZ5vhVA5RBpw8u-F0Rxvk1mHagGeINJEI9GOPUFs4"
 
+    private var session: SessionToken?
+
+    /// /api/register a répondu 409 : la clé de cette installation n'existe plus que côté serveur
+    private var signingKeyLost = false
+
+    /// Réglage « Partager des statistiques d'usage » (désactivé = opt-out PostHog côté backend)
+    static let analyticsOptOutKey = "com.insightrun.analyticsOptOut"
+
+    /// Reprises d'un flux coupé avant d'abandonner la réponse
+    private static let maxResumeAttempts = 3
+
     private init() {}
 
-    // MARK: - Chat (Non-streaming)
+    // MARK: - Session
 
-    func chat(prompt: String, systemPrompt: String, model: String) async throws -> String {
-        let url = URL(string: "\(baseURL)/api/chat")!
+    /// Jeton de session en cache, renouvelé une minute avant son expiration
+    private func sessionToken() async throws -> String {
+        if let session = session, session.expiresAt.timeIntervalSinceNow > 60 {
+            return session.token
+        }
+
+        let url = URL(string: "\(baseURL)/api/session")!
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
         request.setValue(appKey, forHTTPHeaderField: "X-App-Key")
         request.setValue(UserIdentityService.shared.userID, forHTTPHeaderField: "X-User-ID")
+        request.timeoutInterval = 15
+
+        let (data, response) = try await URLSession.shared.data(for: request)
+
+        guard let httpResponse = response as? HTTPURLResponse else {
+            throw BackendError.invalidResponse
+        }
+        guard (200...299).contains(httpResponse.statusCode) else {
+            throw httpResponse.statusCode == 401 ? BackendError.unauthorized : BackendError.serverError
+        }
+
+        guard let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+              let token = json["token"] as? String,
+              let expiresIn = json["expiresIn"] as? Double else {
+            throw BackendError.invalidResponse
+        }
+
+        session = SessionToken(token: token, expiresAt: Date().addingTimeInterval(expiresIn))
+        return token
+    }
+
+    /// À appeler une fois la requête complète : la signature couvre le corps
+    /// `signed` : route qui exige une signature, l'échec de l'enregistrement est alors remonté
+    private func authorize(_ request: inout URLRequest, signed: Bool = false) async throws {
+        request.setValue("Bearer \(try await sessionToken())", forHTTPHeaderField: "Authorization")
+        if UserDefaults.standard.bool(forKey: Self.analyticsOptOutKey) {
+            request.setValue("1", forHTTPHeaderField: "X-Analytics-Opt-Out")
+        }
+        if signed {
+            sign(&request, key: try await signingKey())
+        } else if let key = try? await signingKey() {
+            sign(&request, key: key)
+        }
+    }
+
+    // MARK: - Request Signing
+
+    private var signingKeyDefaultsKey: String {
+        "com.insightrun.signingKey.\(UserIdentityService.shared.userID)"
+    }
+
+    /// Clé de signature de l'installation, délivrée une seule fois par /api/register
+    private func signingKey() async throws -> String {
+        if let key = UserDefaults.standard.string(forKey: signingKeyDefaultsKey) {
+            return key
+        }
+        if signingKeyLost {
+            throw BackendError.signingKeyLost
+        }
+
+        let url = URL(string: "\(baseURL)/api/register")!
+        var request = URLRequest(url: url)
+        request.httpMethod = "POST"
+        request.setValue("Bearer \(try await sessionToken())", forHTTPHeaderField: "Authorization")
+        request.timeoutInterval = 15
+
+        let (data, response) = try await URLSession.shared.data(for: request)
+
+        guard let httpResponse = response as? HTTPURLResponse else {
+            throw BackendError.invalidResponse
+        }
+
+        switch httpResponse.statusCode {
+        case 201:
+            break
+        case 401:
+            session = nil
+            throw BackendError.unauthorized
+        case 409:
+            // Clé déjà délivrée puis perdue (réinstallation) : seul un opérateur peut la révoquer,
+            // inutile de redemander avant le prochain lancement
+            signingKeyLost = true
+            throw BackendError.signingKeyLost
+        default:
+            throw BackendError.unknownError(httpResponse.statusCode)
+        }
+
+        guard let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+              let key = json["signingKey"] as? String else {
+            throw BackendError.invalidResponse
+        }
+
+        UserDefaults.standard.set(key, forKey: signingKeyDefaultsKey)
+        return key
+    }
+
+    /// HMAC-SHA256 de méthode, chemin + query, timestamp, nonce et SHA-256 du corps (un par ligne)
+    private func sign(_ request: inout URLRequest, key: String) {
+        guard let url = request.url,
+              let components = URLComponents(url: url, resolvingAgainstBaseURL: false) else {
+            return
+        }
+
+        var path = components.percentEncodedPath
+        if let query = components.percentEncodedQuery {
+            path += "?\(query)"
+        }
+        let timestamp = String(Int(Date().timeIntervalSince1970))
+        let nonce = UUID().uuidString.replacingOccurrences(of: "-", with: "")
+        let bodyHash = SHA256.hash(data: request.httpBody ?? Data()).hexString
+
+        let canonical = [request.httpMethod ?? "GET", path, timestamp, nonce, bodyHash].joined(separator: "\n")
+        let signature = HMAC<SHA256>.authenticationCode(
+            for: Data(canonical.utf8),
+            using: SymmetricKey(data: Data(key.utf8))
+        )
+
+        request.setValue(Data(signature).hexString, forHTTPHeaderField: "X-Signature")
+        request.setValue(timestamp, forHTTPHeaderField: "X-Signature-Timestamp")
+        request.setValue(nonce, forHTTPHeaderField: "X-Signature-Nonce")
+    }
+
+    // MARK: - Chat (Non-streaming)
+
+    func chat(prompt: String, systemPrompt: String? = nil, template: PromptTemplateRequest? = nil, model: String) async throws -> String {
+        let url = URL(string: "\(baseURL)/api/chat")!
+        var request = URLRequest(url: url)
+        request.httpMethod = "POST"
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
+        request.setValue("application/json", forHTTPHeaderField: "Accept")
         request.timeoutInterval = 30
 
-        let body: [String: Any] = [
+        // stream: false → le backend renvoie {response, model, usage, traceId} au lieu d'un flux SSE
+        var body: [String: Any] = [
             "prompt": prompt,
-            "systemPrompt": systemPrompt,
-            "model": model
+            "model": model,
+            "stream": false
         ]
+        addSystemPrompt(to: &body, systemPrompt: systemPrompt, template: template)
 
         request.httpBody = try JSONSerialization.data(withJSONObject: body)
+        try await authorize(&request)
 
         let (data, response) = try await URLSession.shared.data(for: request)
 
@@ -53,6 +193,8 @@ class BackendAPIClient {
             // Success
             break
         case 401:
+            // Jeton révoqué (rotation de clé) : en redemander un au prochain appel
+            session = nil
             throw BackendError.unauthorized
         case 429:
             throw BackendError.rateLimitExceeded
@@ -73,60 +215,135 @@ class BackendAPIClient {
 
     // MARK: - Chat (Streaming)
 
-    func chatStream(prompt: String, systemPrompt: String, model: String) async throws -> AsyncStream<String> {
+    func chatStream(prompt: String, systemPrompt: String? = nil, template: PromptTemplateRequest? = nil, model: String) async throws -> AsyncThrowingStream<String, Error> {
         let url = URL(string: "\(baseURL)/api/chat")!
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue(appKey, forHTTPHeaderField: "X-App-Key")
-        request.setValue(UserIdentityService.shared.userID, forHTTPHeaderField: "X-User-ID")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         request.timeoutInterval = 60
 
-        let body: [String: Any] = [
+        var body: [String: Any] = [
             "prompt": prompt,
-            "systemPrompt": systemPrompt,
             "model": model
         ]
+        addSystemPrompt(to: &body, systemPrompt: systemPrompt, template: template)
 
         request.httpBody = try JSONSerialization.data(withJSONObject: body)
+        try await authorize(&request)
+
+        return AsyncThrowingStream { continuation in
+            let task = Task {
+                var request = request
+                var traceID: String?
+                var lastEventID: String?
+                var eventName: String?
+                var resumeAttempts = 0
+
+                while true {
+                    do {
+                        let (bytes, response) = try await URLSession.shared.bytes(for: request)
+
+                        guard let httpResponse = response as? HTTPURLResponse,
+                              (200...299).contains(httpResponse.statusCode) else {
+                            if (response as? HTTPURLResponse)?.statusCode == 401 {
+                                self.session = nil
+                            }
+                            continuation.finish()
+                            return
+                        }
+                        traceID = traceID ?? httpResponse.value(forHTTPHeaderField: "X-Trace-ID")
 
-        return AsyncStream { continuation in
-            Task {
-                do {
-                    let (bytes, response) = try await URLSession.shared.bytes(for: request)
-
-                    guard let httpResponse = response as? HTTPURLResponse,
-                          (200...299).contains(httpResponse.statusCode) else {
-                        continuation.finish()
-                        return
-                    }
-
-                    for try await line in bytes.lines {
-                        // Parse SSE format: data: {...}
-                        if line.hasPrefix("data: ") {
-                            let jsonString = String(line.dropFirst(6))
+                        for try await line in bytes.lines {
+                            // Identifiant de l'événement, renvoyé en Last-Event-ID pour reprendre
+                            if line.hasPrefix("id: ") {
+                                lastEventID = String(line.dropFirst(4))
+                            }
 
-                            if jsonString == "[DONE]" {
-                                continuation.finish()
-                                return
+                            // `event: done` (usage finale) ou `event: error` (code typé)
+                            if line.hasPrefix("event: ") {
+                                eventName = String(line.dropFirst(7))
                             }
 
-                            // Parse simplified format: {"content": "..."}
-                            if let jsonData = jsonString.data(using: .utf8),
-                               let json = try? JSONSerialization.jsonObject(with: jsonData) as? [String: Any],
-                               let content = json["content"] as? String {
-                                continuation.yield(content)
+                            // Parse SSE format: data: {...}
+                            if line.hasPrefix("data: ") {
+                                let jsonString = String(line.dropFirst(6))
+                                let json = jsonString.data(using: .utf8)
+                                    .flatMap { try? JSONSerialization.jsonObject(with: $0) as? [String: Any] }
+                                defer { eventName = nil }
+
+                                // [DONE] : anciennes versions du backend
+                                if jsonString == "[DONE]" || eventName == "done" {
+                                    continuation.finish()
+                                    return
+                                }
+
+                                if eventName == "error" {
+                                    print("❌ BackendAPIClient stream error: \(json?["code"] ?? "unknown")")
+                                    continuation.finish(throwing: json?["code"] as? String == "rate_limited"
+                                        ? BackendError.rateLimitExceeded
+                                        : BackendError.serverError)
+                                    return
+                                }
+
+                                // Parse simplified format: {"content": "..."}
+                                if let content = json?["content"] as? String {
+                                    continuation.yield(content)
+                                }
                             }
                         }
-                    }
 
-                    continuation.finish()
+                        continuation.finish()
+                        return
+
+                    } catch {
+                        // Coupure réseau (tunnel, 4G instable) : le backend garde la réponse
+                        // quelques minutes, on la reprend après le dernier événement reçu
+                        guard !Task.isCancelled,
+                              let traceID = traceID,
+                              resumeAttempts < Self.maxResumeAttempts,
+                              let resumeRequest = try? await self.resumeRequest(traceID: traceID, lastEventID: lastEventID) else {
+                            print("❌ BackendAPIClient streaming error: \(error)")
+                            continuation.finish()
+                            return
+                        }
 
-                } catch {
-                    print("❌ BackendAPIClient streaming error: \(error)")
-                    continuation.finish()
+                        resumeAttempts += 1
+                        request = resumeRequest
+                        try? await Task.sleep(nanoseconds: 1_000_000_000)
+                    }
                 }
             }
+
+            // Lecteur parti (vue fermée, tâche annulée) : couper la connexion pour que le
+            // backend annule la génération au lieu de la payer jusqu'au bout
+            continuation.onTermination = { _ in
+                task.cancel()
+            }
+        }
+    }
+
+    /// Reprise d'une réponse coupée : le backend rejoue les événements suivant `lastEventID`
+    private func resumeRequest(traceID: String, lastEventID: String?) async throws -> URLRequest {
+        let url = URL(string: "\(baseURL)/api/chat/streams/\(traceID)")!
+        var request = URLRequest(url: url)
+        request.httpMethod = "GET"
+        request.timeoutInterval = 60
+        if let lastEventID = lastEventID {
+            request.setValue(lastEventID, forHTTPHeaderField: "Last-Event-ID")
+        }
+        try await authorize(&request)
+        return request
+    }
+
+    // MARK: - Prompt
+
+    /// Le template serveur remplace le prompt système écrit par l'app
+    private func addSystemPrompt(to body: inout [String: Any], systemPrompt: String?, template: PromptTemplateRequest?) {
+        if let template = template {
+            body["templateId"] = template.id
+            body["variables"] = template.variables
+        } else if let systemPrompt = systemPrompt {
+            body["systemPrompt"] = systemPrompt
         }
     }
 
@@ -136,8 +353,7 @@ class BackendAPIClient {
         let url = URL(string: "\(baseURL)/api/stats")!
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
-        request.setValue(appKey, forHTTPHeaderField: "X-App-Key")
-        request.setValue(UserIdentityService.shared.userID, forHTTPHeaderField: "X-User-ID")
+        try await authorize(&request)
 
         let (data, response) = try await URLSession.shared.data(for: request)
 
@@ -170,6 +386,23 @@ class BackendAPIClient {
 
 // MARK: - Models
 
+private extension Sequence where Element == UInt8 {
+    var hexString: String {
+        map { String(format: "%02x", $0) }.joined()
+    }
+}
+
+private struct SessionToken {
+    let token: String
+    let expiresAt: Date
+}
+
+/// Prompt système géré par le backend (voir backend/src/prompt-templates.ts)
+struct PromptTemplateRequest {
+    let id: String
+    let variables: [String: Any]
+}
+
 struct RateLimitStats {
     let requestsRemaining: Int
     let limit: Int
@@ -192,18 +425,21 @@ enum BackendError: LocalizedError {
     case rateLimitExceeded
     case serverError
     case invalidResponse
+    case signingKeyLost
     case unknownError(Int)
 
     var errorDescription: String? {
         switch self {
         case .unauthorized:
-            return "Unauthorized - Invalid app key"
+            return "Unauthorized - Invalid app key or session"
         case .rateLimitExceeded:
             return "Rate limit exceeded. Please try again later."
         case .serverError:
             return "Server error. Please try again."
         case .invalidResponse:
             return "Invalid response from server"
+        case .signingKeyLost:
+            return "Signing key lost - Ask support to reset it, then restart the app"
         case .unknownError(let code):
             return "Unknown error (HTTP \(code))"
         }
@@ -41,6 +41,20 @@ enum AIModel: String, CaseIterable, Sendable {
     }
 }
 
+extension AIAssistantMode {
+    /// Backend prompt template for this mode (backend/src/prompt-templates.ts)
+    nonisolated var templateId: String {
+        switch self {
+        case .singleWorkout:
+            return "single-workout"
+        case .recentWorkouts:
+            return "recent-workouts"
+        case .recoveryCoaching:
+            return "recovery-coaching"
+        }
+    }
+}
+
 class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
     @Published var isStreaming = false
     @Published var streamedResponse = ""
@@ -124,12 +138,13 @@ class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
             self.suggestedQuestions = []
         }
 
-        // If model not provided, use intelligent routing
-        let selectedModel: AIModel
-        if let model = model {
-            selectedModel = model
-        } else {
-            selectedModel = await ModelRouter.shared.selectOptimalModel(for: question, mode: mode)
+        // If model not provided, the backend picks it from the question's complexity
+        // (model "auto") in the same request as the answer
+        guard let selectedModel = model else {
+            print("🎯 WorkoutAIService: Using server-side model routing")
+            let template = PromptTemplateRequest(id: mode.templateId, variables: ["context": workoutContext])
+            await handleRemoteModelInference(template: template, question: question, modelId: "auto")
+            return
         }
 
         print("🎯 WorkoutAIService: Using model: \(selectedModel.displayName)")
@@ -331,7 +346,9 @@ class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
         if selectedModel.isLocal {
             await handleLocalModelInference(systemPrompt: systemPrompt, question: question, locale: questionLocale)
         } else {
-            await handleRemoteModelInference(systemPrompt: systemPrompt, question: question, model: selectedModel)
+            // The backend renders its own version of this prompt from the mode template
+            let template = PromptTemplateRequest(id: mode.templateId, variables: ["context": workoutContext])
+            await handleRemoteModelInference(template: template, question: question, modelId: selectedModel.modelId)
         }
     }
 
@@ -426,7 +443,7 @@ class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
 
     // MARK: - Remote Model Inference
 
-    private func handleRemoteModelInference(systemPrompt: String, question: String, model: AIModel) async {
+    private func handleRemoteModelInference(template: PromptTemplateRequest, question: String, modelId: String) async {
         do {
             // Show a message while waiting for response
             await MainActor.run {
@@ -436,12 +453,12 @@ class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
             // Use real streaming from backend
             let stream = try await backendClient.chatStream(
                 prompt: question,
-                systemPrompt: systemPrompt,
-                model: model.modelId
+                template: template,
+                model: modelId
             )
 
             // Stream content as it arrives
-            for await chunk in stream {
+            for try await chunk in stream {
                 await MainActor.run {
                     // Clear "connecting" message on first chunk
                     if self.streamedResponse == "🌐 Connexion au serveur..." {
@@ -474,6 +491,8 @@ class WorkoutAIService: NSObject, ObservableObject, URLSessionDataDelegate {
                 errorMessage = "❌ Erreur serveur. Réessayez plus tard."
             case .invalidResponse:
                 errorMessage = "❌ Réponse invalide du serveur"
+            case .signingKeyLost:
+                errorMessage = "🔑 Clé de signature perdue. Contactez le support pour la réinitialiser."
             case .unknownError(let code):
                 errorMessage = "❌ Erreur \(code). Réessayez plus tard."
             }
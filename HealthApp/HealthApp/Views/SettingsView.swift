@@ -8,9 +8,23 @@
 import SwiftUI
 
 struct SettingsView: View {
+    @AppStorage(BackendAPIClient.analyticsOptOutKey) private var analyticsOptOut = false
+
     var body: some View {
         NavigationStack {
             List {
+                // Privacy Section
+                Section {
+                    Toggle("Partager des statistiques d'usage", isOn: Binding(
+                        get: { !analyticsOptOut },
+                        set: { analyticsOptOut = !$0 }
+                    ))
+                } header: {
+                    Text("Confidentialité")
+                } footer: {
+                    Text("Modèle, durée, tokens et extraits des échanges avec le coach IA. Les valeurs de santé sont masquées avant l'envoi.")
+                }
+
                 // App Information Section
                 Section {
                     HStack {
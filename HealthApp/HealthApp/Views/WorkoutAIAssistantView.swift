@@ -41,6 +41,7 @@ struct WorkoutAIAssistantView: View {
     @State private var messages: [ChatMessage] = []
     @State private var isTyping = false
     @State private var streamingMessageId: UUID?
+    @State private var answerTask: Task<Void, Never>?
     @FocusState private var isTextFieldFocused: Bool
     @Namespace private var bottomID
 
@@ -153,6 +154,10 @@ struct WorkoutAIAssistantView: View {
             impactMedium.prepare()
             notificationFeedback.prepare()
         }
+        .onDisappear {
+            // Ferme le flux : le backend arrête la génération côté fournisseur
+            answerTask?.cancel()
+        }
     }
 
     // MARK: - Header View
@@ -493,7 +498,7 @@ struct WorkoutAIAssistantView: View {
             context = aiService.generateRecoveryCoachingContext(metrics: recoveryMetrics)
         }
 
-        Task {
+        answerTask = Task {
             await aiService.askQuestion(
                 about: context,
                 question: userQuestion,
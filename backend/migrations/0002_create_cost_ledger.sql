@@ -0,0 +1,15 @@
+-- Generation costs per user, UTC day and model (one row updated in place per generation)
+CREATE TABLE IF NOT EXISTS cost_ledger (
+  user_id TEXT NOT NULL,
+  day TEXT NOT NULL,
+  model TEXT NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  -- Part of cost_usd reported by the provider rather than computed from the pricing table
+  reported_cost_usd REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_day ON cost_ledger (day);
@@ -0,0 +1,19 @@
+-- One row per chat request, for the operator usage API (error rates, latency percentiles)
+CREATE TABLE IF NOT EXISTS usage_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  day TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  route TEXT NOT NULL,
+  model TEXT NOT NULL,
+  provider TEXT,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'error')),
+  cache_hit INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_day ON usage_events (day);
+CREATE INDEX IF NOT EXISTS idx_usage_events_user ON usage_events (user_id, day);
@@ -0,0 +1,68 @@
+-- Workout history synced from HealthKit (mirrors the app's WorkoutModel + WorkoutMetrics)
+-- Keyed by the HealthKit UUID, dates stored as UTC ISO 8601 strings
+CREATE TABLE IF NOT EXISTS workouts (
+  user_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  workout_type TEXT,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  duration REAL NOT NULL,
+  distance REAL,
+  total_energy_burned REAL,
+  source_name TEXT,
+  source_version TEXT,
+  average_heart_rate REAL,
+  min_heart_rate REAL,
+  max_heart_rate REAL,
+  zone1 REAL,
+  zone2 REAL,
+  zone3 REAL,
+  zone4 REAL,
+  zone5 REAL,
+  zones_max_heart_rate REAL,
+  average_pace REAL,
+  min_pace REAL,
+  max_pace REAL,
+  average_speed REAL,
+  max_speed REAL,
+  total_steps INTEGER,
+  average_cadence REAL,
+  stride_length REAL,
+  running_power REAL,
+  total_elevation_ascent REAL,
+  total_elevation_descent REAL,
+  ground_contact_time REAL,
+  ground_contact_time_balance REAL,
+  vertical_oscillation REAL,
+  running_efficiency REAL,
+  walking_steadiness REAL,
+  walking_asymmetry REAL,
+  double_support_percentage REAL,
+  walking_speed REAL,
+  stair_ascent_speed REAL,
+  stair_descent_speed REAL,
+  vo2_max REAL,
+  temperature REAL,
+  humidity REAL,
+  moving_time REAL,
+  paused_time REAL,
+  synced_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workouts_start ON workouts (user_id, start_date);
+
+CREATE TABLE IF NOT EXISTS workout_splits (
+  user_id TEXT NOT NULL,
+  workout_id TEXT NOT NULL,
+  kilometer INTEGER NOT NULL,
+  distance REAL NOT NULL,
+  time REAL NOT NULL,
+  pace REAL NOT NULL,
+  average_heart_rate REAL,
+  average_power REAL,
+  elevation_gain REAL,
+  elevation_loss REAL,
+  PRIMARY KEY (user_id, workout_id, kilometer),
+  FOREIGN KEY (user_id, workout_id) REFERENCES workouts (user_id, id) ON DELETE CASCADE
+);
@@ -0,0 +1,8 @@
+-- Request signing keys, one per user (issued by POST /api/register)
+-- In D1 rather than KV: registration and rotation need conditional writes
+CREATE TABLE IF NOT EXISTS install_keys (
+  user_id TEXT PRIMARY KEY,
+  key TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  rotated_at TEXT
+);
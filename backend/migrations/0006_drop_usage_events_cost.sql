@@ -0,0 +1,2 @@
+-- Costs are read from cost_ledger, which already has every generation's cost
+ALTER TABLE usage_events DROP COLUMN cost_usd;
@@ -0,0 +1,87 @@
+import { createMiddleware } from 'hono/factory'
+import { ledgerDay } from './cost-ledger'
+import { constantTimeEqual } from './session'
+import type { UsageGroupBy, UsageQuery } from './usage'
+
+export type UsageQueryParsing = { ok: true; query: UsageQuery } | { ok: false; message: string }
+
+type AdminEnv = {
+  Bindings: {
+    ADMIN_SECRET?: string
+  }
+}
+
+export const MAX_USAGE_RANGE_DAYS = 92
+
+const DEFAULT_USAGE_RANGE_DAYS = 7
+const DEFAULT_GROUP_LIMIT = 100
+const MAX_GROUP_LIMIT = 1000
+const MIN_SECRET_LENGTH = 32
+const GROUP_BY_VALUES: UsageGroupBy[] = ['user', 'model', 'day']
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 3600 * 1000
+
+function isDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && ledgerDay(new Date(`${value}T00:00:00Z`)) === value
+}
+
+/**
+ * Read `from`, `to`, `groupBy` and `limit` of GET /admin/usage
+ * Defaults to the last 7 days (today included) grouped by day
+ */
+export function parseUsageQuery(
+  params: Record<string, string | undefined>,
+  now = new Date()
+): UsageQueryParsing {
+  const to = params.to ?? ledgerDay(now)
+  const from =
+    params.from ??
+    ledgerDay(new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_USAGE_RANGE_DAYS - 1) * DAY_MS))
+  if (!isDay(from) || !isDay(to)) {
+    return { ok: false, message: 'from and to must be dates formatted as YYYY-MM-DD' }
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1
+  if (days < 1 || days > MAX_USAGE_RANGE_DAYS) {
+    return {
+      ok: false,
+      message: `from must not be after to, and the range must not exceed ${MAX_USAGE_RANGE_DAYS} days`,
+    }
+  }
+
+  const groupBy = (params.groupBy ?? 'day') as UsageGroupBy
+  if (!GROUP_BY_VALUES.includes(groupBy)) {
+    return { ok: false, message: `groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}` }
+  }
+
+  const limit = Number(params.limit ?? DEFAULT_GROUP_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GROUP_LIMIT) {
+    return { ok: false, message: `limit must be an integer from 1 to ${MAX_GROUP_LIMIT}` }
+  }
+
+  return { ok: true, query: { from, to, groupBy, limit } }
+}
+
+/**
+ * Hono middleware requiring `X-Admin-Key` to match one of the comma-separated `ADMIN_SECRET`s
+ * Fails closed when no secret (of at least 32 characters) is configured
+ */
+export function requireAdmin() {
+  return createMiddleware<AdminEnv>(async (c, next) => {
+    const secrets = (c.env.ADMIN_SECRET ?? '')
+      .split(',')
+      .map((secret) => secret.trim())
+      .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+    if (secrets.length === 0) {
+      console.error('ADMIN_SECRET is not configured')
+      return c.json({ error: 'Internal Server Error', message: 'Admin API is not configured' }, 500)
+    }
+
+    const key = c.req.header('X-Admin-Key') ?? ''
+    if (!secrets.some((secret) => constantTimeEqual(secret, key))) {
+      return c.json({ error: 'Unauthorized', message: 'Invalid admin key' }, 401)
+    }
+
+    await next()
+  })
+}
@@ -0,0 +1,470 @@
+import { ProviderError } from './providers'
+import { readSSE, type StreamChunk } from './sse'
+
+export type ResponseFormat = 'openai' | 'sse' | 'ndjson' | 'json'
+
+/** Why a generation failed, as sent to clients */
+export type StreamErrorCode =
+  | 'upstream_timeout'
+  | 'upstream_error'
+  | 'rate_limited'
+  | 'content_filtered'
+
+export type GenerationUsage = NonNullable<StreamChunk['usage']>
+
+export interface GenerationResult {
+  output: string
+  usage: GenerationUsage
+  /** False when the upstream stream failed before `[DONE]` */
+  completed: boolean
+  /** The client disconnected first: upstream was aborted and `output` is what it received */
+  cancelled?: boolean
+  error?: string
+  /** Set on every failed generation that was not cancelled */
+  errorCode?: StreamErrorCode
+}
+
+/** How a generation ended, as needed to write the end of a stream */
+export type GenerationEnd = Pick<GenerationResult, 'completed' | 'usage' | 'errorCode'>
+
+/** Limits on upstream silence, counted in content tokens (provider keep-alives do not count), 0 for none */
+export interface UpstreamTimeouts {
+  /** From the start of the read to the first token */
+  firstTokenMs: number
+  /** Between two tokens */
+  idleMs: number
+}
+
+/**
+ * Copy of a generation kept for clients that reconnect, see src/stream-buffer.ts
+ * Best effort: failures must not reach the live stream
+ */
+export interface GenerationRecorder {
+  /** Upstream frame `raw`, numbered from 1 like the SSE event IDs */
+  frame(id: number, raw: string): void
+  end(result: GenerationEnd): void
+  /** Whether a reconnected client is reading the copy right now */
+  isFollowed(): Promise<boolean>
+}
+
+export interface PipeOptions {
+  /** Aborted when the client disconnects, its signal should be the upstream request's */
+  upstream?: AbortController
+  /** Keeps the Worker running until `onComplete`, even once the client is gone */
+  waitUntil?: (promise: Promise<void>) => void
+  recorder?: GenerationRecorder
+  /** With a recorder: how long upstream keeps going after a disconnect, waiting for a resume */
+  resumeGraceMs?: number
+  timeouts?: UpstreamTimeouts
+  /** Interval of SSE comment frames keeping proxies from closing an idle connection */
+  heartbeatMs?: number
+}
+
+export const RESPONSE_CONTENT_TYPES: Record<ResponseFormat, string> = {
+  openai: 'text/event-stream',
+  sse: 'text/event-stream',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+}
+
+export const STREAM_ERROR_MESSAGES: Record<StreamErrorCode, string> = {
+  upstream_timeout: 'AI provider stopped responding',
+  upstream_error: 'AI response was interrupted',
+  rate_limited: 'AI provider is rate limiting requests, retry later',
+  content_filtered: 'AI response was blocked by the content filter',
+}
+
+const RESPONSE_FORMATS = Object.keys(RESPONSE_CONTENT_TYPES) as ResponseFormat[]
+export const HEARTBEAT_FRAME = ': keep-alive\n\n'
+
+/**
+ * Failure of a generation with its client error code, e.g. thrown into a stream being read
+ */
+export class GenerationError extends Error {
+  readonly code: StreamErrorCode
+
+  constructor(code: StreamErrorCode, message: string) {
+    super(message)
+    this.name = 'GenerationError'
+    this.code = code
+  }
+}
+
+/**
+ * Error code of an upstream failure, from an HTTP status where there is one
+ * OpenRouter reports moderation refusals as 403
+ */
+function upstreamErrorCode(status: number | string | undefined): StreamErrorCode {
+  switch (Number(status)) {
+    case 429:
+      return 'rate_limited'
+    case 403:
+      return 'content_filtered'
+    default:
+      return 'upstream_error'
+  }
+}
+
+/**
+ * Wrap an upstream body so that it errors with an `upstream_timeout` GenerationError on a stall
+ * `touch` marks a token: the idle limit applies from then on
+ */
+function watchStalls(body: ReadableStream<Uint8Array>, timeouts: UpstreamTimeouts) {
+  const source = body.getReader()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let stalled: ReadableStreamDefaultController<Uint8Array> | undefined
+
+  const arm = (ms: number, message: string) => {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+    }
+    // 0 disables the limit
+    if (ms <= 0) {
+      return
+    }
+    timer = setTimeout(() => {
+      stalled?.error(new GenerationError('upstream_timeout', message))
+      source.cancel().catch(() => {})
+    }, ms)
+  }
+  const disarm = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+    }
+  }
+
+  const watched = new ReadableStream<Uint8Array>({
+    start(controller) {
+      stalled = controller
+      arm(timeouts.firstTokenMs, `No token within ${timeouts.firstTokenMs} ms`)
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await source.read()
+        if (done) {
+          disarm()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        disarm()
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      disarm()
+      return source.cancel(reason)
+    },
+  })
+
+  return {
+    body: watched,
+    touch: () => arm(timeouts.idleMs, `No token for ${timeouts.idleMs} ms`),
+  }
+}
+
+/**
+ * Pick the response format from an explicit `format` parameter, then the Accept header
+ * Returns undefined for an unknown explicit format
+ */
+export function negotiateFormat(
+  requested: string | undefined,
+  accept: string | undefined,
+  fallback: ResponseFormat
+): ResponseFormat | undefined {
+  if (requested) {
+    return RESPONSE_FORMATS.find((format) => format === requested)
+  }
+
+  const accepted = (accept ?? '').toLowerCase()
+  if (accepted.includes('application/x-ndjson')) {
+    return 'ndjson'
+  }
+  if (accepted.includes('application/json') && !accepted.includes('text/event-stream')) {
+    return 'json'
+  }
+
+  return fallback
+}
+
+/**
+ * Read a normalized (OpenAI-compatible) upstream stream to its end
+ * `onChunk` sees every parsed frame with its raw JSON; malformed frames are skipped
+ * In-band errors, content filtering and stalls (with `timeouts`) end the read as failed
+ */
+export async function consumeGeneration(
+  body: ReadableStream<Uint8Array>,
+  onChunk?: (raw: string, chunk: StreamChunk) => Promise<void>,
+  timeouts?: UpstreamTimeouts
+): Promise<GenerationResult> {
+  const result: GenerationResult = { output: '', usage: {}, completed: false }
+  const watched = timeouts ? watchStalls(body, timeouts) : undefined
+  let filtered = false
+
+  try {
+    for await (const { data } of readSSE(watched?.body ?? body)) {
+      if (data === '[DONE]') {
+        result.completed = !filtered
+        break
+      }
+
+      let chunk: StreamChunk
+      try {
+        chunk = JSON.parse(data)
+      } catch (parseError) {
+        console.warn('JSON parse error:', parseError, 'Data:', data)
+        continue
+      }
+
+      if (chunk.error) {
+        result.error = chunk.error.message ?? 'Upstream stream error'
+        result.errorCode = upstreamErrorCode(chunk.error.code)
+        break
+      }
+
+      const delta = chunk.choices?.[0]?.delta
+      if (delta?.content) {
+        result.output += delta.content
+      }
+      // Tool call arguments are tokens too
+      if (delta?.content || delta?.tool_calls) {
+        watched?.touch()
+      }
+      if (chunk.choices?.[0]?.finish_reason === 'content_filter') {
+        // Keep reading for the usage block, the answer is not delivered as complete
+        filtered = true
+      }
+
+      // Capture usage data if present
+      if (chunk.usage) {
+        result.usage = chunk.usage
+      }
+
+      await onChunk?.(data, chunk)
+    }
+  } catch (error) {
+    console.error('Streaming error:', error)
+    result.error = error instanceof Error ? error.message : 'Unknown streaming error'
+    result.errorCode =
+      error instanceof GenerationError
+        ? error.code
+        : error instanceof ProviderError
+          ? upstreamErrorCode(error.status)
+          : 'upstream_error'
+  }
+
+  if (filtered) {
+    result.completed = false
+    result.error ??= 'Content filtered'
+    result.errorCode ??= 'content_filtered'
+  } else if (!result.completed) {
+    result.errorCode ??= 'upstream_error'
+  }
+
+  return result
+}
+
+/**
+ * Token usage and cost of two model calls, token counts absent from both stay absent
+ * The cost is only kept when both calls reported one: a partial sum would undercount, without
+ * it every token is priced from the pricing table
+ */
+export function addUsage(first: GenerationUsage, second: GenerationUsage): GenerationUsage {
+  const add = (key: keyof GenerationUsage) =>
+    first[key] === undefined && second[key] === undefined
+      ? undefined
+      : (first[key] ?? 0) + (second[key] ?? 0)
+
+  return {
+    prompt_tokens: add('prompt_tokens'),
+    completion_tokens: add('completion_tokens'),
+    total_tokens: add('total_tokens'),
+    cost:
+      first.cost === undefined || second.cost === undefined ? undefined : first.cost + second.cost,
+  }
+}
+
+/**
+ * Combine a first generation with a follow-up one (e.g. a repair attempt)
+ * The follow-up output wins, token usage and cost add up
+ */
+export function mergeGenerations(
+  first: GenerationResult,
+  second: GenerationResult
+): GenerationResult {
+  return { ...second, usage: addUsage(first.usage, second.usage) }
+}
+
+/**
+ * Client frame for the upstream frame `raw`, undefined when it carries nothing to send
+ * SSE frames carry `id` as their event ID, for Last-Event-ID on reconnection
+ */
+export function encodeFrame(
+  format: ResponseFormat,
+  raw: string,
+  chunk: StreamChunk,
+  id?: number
+): string | undefined {
+  const eventId = id === undefined ? '' : `id: ${id}\n`
+  if (chunk.tool_request) {
+    return format === 'ndjson'
+      ? `${JSON.stringify({ tool_request: chunk.tool_request })}\n`
+      : `${eventId}event: tool_request\ndata: ${JSON.stringify(chunk.tool_request)}\n\n`
+  }
+  if (format === 'openai') {
+    // Usage-only frames are replaced by the final usage chunk, see encodeEnd
+    if (chunk.usage && !chunk.choices?.length) {
+      return undefined
+    }
+    return `${eventId}data: ${raw}\n\n`
+  }
+
+  const content = chunk.choices?.[0]?.delta?.content
+  if (!content) {
+    return undefined
+  }
+
+  return format === 'ndjson'
+    ? `${JSON.stringify({ content })}\n`
+    : `${eventId}data: ${JSON.stringify({ content })}\n\n`
+}
+
+/**
+ * Last client frame: usage once completed, a typed error otherwise
+ * Undefined for a generation stopped without error (cancelled)
+ */
+export function encodeEnd(format: ResponseFormat, result: GenerationEnd): string | undefined {
+  if (!result.completed) {
+    if (!result.errorCode) {
+      return undefined
+    }
+    const error = { code: result.errorCode, message: STREAM_ERROR_MESSAGES[result.errorCode] }
+    return format === 'ndjson'
+      ? `${JSON.stringify({ done: false, error })}\n`
+      : `event: error\ndata: ${JSON.stringify(error)}\n\n`
+  }
+
+  // OpenAI clients get the usage of the whole generation as a last chunk, then [DONE]
+  if (format === 'openai') {
+    return `data: ${JSON.stringify({ choices: [], usage: result.usage })}\n\ndata: [DONE]\n\n`
+  }
+
+  const done = JSON.stringify({ done: true, usage: result.usage })
+  return format === 'ndjson' ? `${done}\n` : `event: done\ndata: ${done}\n\n`
+}
+
+/**
+ * Re-encode a normalized upstream stream in a streaming format
+ * `onComplete` runs once the stream ended, successfully, on error or on a client disconnect
+ * With a recorder, every frame is also copied there so that the client can resume the stream
+ *
+ * - `openai`: upstream frames passed through as-is, then a usage chunk and `[DONE]`
+ * - `sse`: simplified `data: {"content": "..."}` frames, then an `event: done` with the usage
+ * - `ndjson`: one `{"content": "..."}` object per line, then `{"done": true, "usage": {...}}`
+ *
+ * A failed generation ends with a typed error (`event: error` or `{"done": false, "error"}`)
+ */
+export function pipeGeneration(
+  body: ReadableStream<Uint8Array>,
+  format: Exclude<ResponseFormat, 'json'>,
+  onComplete: (result: GenerationResult) => void,
+  options: PipeOptions = {}
+): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = writable.getWriter()
+  const encoder = new TextEncoder()
+
+  let disconnected = false
+  let aborted = false
+  let graceTimer: ReturnType<typeof setTimeout> | undefined
+  const abortUpstream = () => {
+    aborted = true
+    options.upstream?.abort()
+  }
+  const disconnect = () => {
+    if (disconnected) {
+      return
+    }
+    disconnected = true
+    const { recorder, resumeGraceMs } = options
+    if (recorder && resumeGraceMs) {
+      // The client may reconnect with Last-Event-ID: only stop if nobody resumed by then
+      graceTimer = setTimeout(() => {
+        recorder.isFollowed().then(
+          (followed) => followed || abortUpstream(),
+          () => abortUpstream()
+        )
+      }, resumeGraceMs)
+    } else {
+      abortUpstream()
+    }
+  }
+  // Rejects when the runtime cancels the response body, possibly before the next write fails
+  writer.closed.catch(disconnect)
+
+  // NDJSON has no comment syntax, only SSE gets heartbeats
+  const heartbeat =
+    options.heartbeatMs && format !== 'ndjson'
+      ? setInterval(() => {
+          if (!disconnected) {
+            writer.write(encoder.encode(HEARTBEAT_FRAME)).catch(disconnect)
+          }
+        }, options.heartbeatMs)
+      : undefined
+
+  const pump = async () => {
+    let id = 0
+    const result = await consumeGeneration(
+      body,
+      async (raw, chunk) => {
+        id += 1
+        options.recorder?.frame(id, raw)
+        const frame = encodeFrame(format, raw, chunk, id)
+        if (frame && !disconnected) {
+          await writer.write(encoder.encode(frame)).catch(disconnect)
+        }
+      },
+      options.timeouts
+    )
+    if (heartbeat !== undefined) {
+      clearInterval(heartbeat)
+    }
+    if (graceTimer !== undefined) {
+      clearTimeout(graceTimer)
+    }
+
+    if (aborted) {
+      // Not an upstream failure, the read was stopped on purpose
+      result.cancelled = true
+      result.error = undefined
+      result.errorCode = undefined
+    } else if (result.errorCode === 'upstream_timeout') {
+      // The stalled request would otherwise stay open
+      options.upstream?.abort()
+    }
+    options.recorder?.end(result)
+
+    if (disconnected) {
+      onComplete(result)
+      return
+    }
+
+    try {
+      const end = encodeEnd(format, result)
+      if (end) {
+        await writer.write(encoder.encode(end))
+      }
+      await writer.close()
+    } catch (error) {
+      console.error('Client stream closed early:', error)
+    } finally {
+      onComplete(result)
+    }
+  }
+
+  const done = pump()
+  options.waitUntil?.(done)
+
+  return readable
+}
@@ -0,0 +1,249 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ConversationSummary {
+  id: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+  preview: string
+}
+
+export interface StoredMessage extends ChatMessage {
+  createdAt: string
+}
+
+export interface Conversation {
+  id: string
+  createdAt: string
+  updatedAt: string
+  messages: StoredMessage[]
+}
+
+export type MessagesValidation =
+  | { ok: true; messages: ChatMessage[] }
+  | { ok: false; message: string }
+
+export const MAX_CONVERSATION_TURNS = 20
+export const MAX_CONVERSATION_LENGTH = 24000
+
+const MESSAGE_ROLES: ReadonlyArray<ChatMessage['role']> = ['system', 'user', 'assistant']
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+const PREVIEW_LENGTH = 80
+
+/**
+ * Validate a client-supplied `messages` array
+ * Only the first message may be a system message and the last one must come from the user
+ */
+export function validateMessages(value: unknown): MessagesValidation {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, message: 'messages must be a non-empty array' }
+  }
+
+  const messages: ChatMessage[] = []
+  for (const [index, item] of value.entries()) {
+    const message = item as Partial<ChatMessage> | null
+    if (!message || !MESSAGE_ROLES.includes(message.role as ChatMessage['role'])) {
+      return { ok: false, message: `messages[${index}].role must be system, user or assistant` }
+    }
+    if (typeof message.content !== 'string' || message.content.trim() === '') {
+      return { ok: false, message: `messages[${index}].content must be a non-empty string` }
+    }
+    if (message.role === 'system' && index > 0) {
+      return { ok: false, message: 'Only the first message may have the system role' }
+    }
+    messages.push({ role: message.role as ChatMessage['role'], content: message.content })
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return { ok: false, message: 'The last message must have the user role' }
+  }
+
+  const turns = messages.filter((message) => message.role !== 'system').length
+  if (turns > MAX_CONVERSATION_TURNS) {
+    return { ok: false, message: `Too many turns (max ${MAX_CONVERSATION_TURNS})` }
+  }
+
+  if (conversationLength(messages) > MAX_CONVERSATION_LENGTH) {
+    return {
+      ok: false,
+      message: `Conversation too long (max ${MAX_CONVERSATION_LENGTH} characters)`,
+    }
+  }
+
+  return { ok: true, messages }
+}
+
+export function isValidConversationId(value: unknown): value is string {
+  return typeof value === 'string' && CONVERSATION_ID_PATTERN.test(value)
+}
+
+export function conversationLength(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + message.content.length, 0)
+}
+
+/**
+ * Drop the oldest stored turns until history + new turns fit the conversation limits
+ * The kept history always starts with a user turn
+ */
+export function fitHistory(history: ChatMessage[], newTurns: ChatMessage[]): ChatMessage[] {
+  const kept = [...history]
+  const fits = () =>
+    kept.length + newTurns.length <= MAX_CONVERSATION_TURNS &&
+    conversationLength(kept) + conversationLength(newTurns) <= MAX_CONVERSATION_LENGTH
+
+  while (kept.length > 0 && (!fits() || kept[0].role !== 'user')) {
+    kept.shift()
+  }
+
+  return [...kept, ...newTurns]
+}
+
+/**
+ * Load the stored user/assistant turns of a conversation, oldest first
+ * Returns an empty thread for unknown ids or ids owned by another user
+ */
+export async function loadConversation(
+  db: D1Database,
+  userId: string,
+  conversationId: string
+): Promise<ChatMessage[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT role, content FROM messages
+       WHERE user_id = ?1 AND conversation_id = ?2
+       ORDER BY id`
+    )
+    .bind(userId, conversationId)
+    .all<ChatMessage>()
+
+  return results
+}
+
+/**
+ * Append turns to a conversation, creating it on first use
+ */
+export async function appendToConversation(
+  db: D1Database,
+  userId: string,
+  conversationId: string,
+  messages: ChatMessage[]
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO conversations (user_id, id, created_at, updated_at) VALUES (?1, ?2, ?3, ?3)
+         ON CONFLICT (user_id, id) DO UPDATE SET updated_at = excluded.updated_at`
+      )
+      .bind(userId, conversationId, now),
+    ...messages.map((message) =>
+      db
+        .prepare(
+          `INSERT INTO messages (user_id, conversation_id, role, content, created_at)
+           VALUES (?1, ?2, ?3, ?4, ?5)`
+        )
+        .bind(userId, conversationId, message.role, message.content, now)
+    ),
+  ])
+}
+
+/**
+ * List a user's conversations, most recently updated first
+ */
+export async function listConversations(
+  db: D1Database,
+  userId: string,
+  limit: number,
+  offset: number
+): Promise<ConversationSummary[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT
+         c.id AS id,
+         c.created_at AS createdAt,
+         c.updated_at AS updatedAt,
+         (SELECT COUNT(*) FROM messages m
+          WHERE m.user_id = c.user_id AND m.conversation_id = c.id) AS messageCount,
+         COALESCE((SELECT substr(m.content, 1, ?2) FROM messages m
+          WHERE m.user_id = c.user_id AND m.conversation_id = c.id AND m.role = 'user'
+          ORDER BY m.id LIMIT 1), '') AS preview
+       FROM conversations c
+       WHERE c.user_id = ?1
+       ORDER BY c.updated_at DESC, c.id
+       LIMIT ?3 OFFSET ?4`
+    )
+    .bind(userId, PREVIEW_LENGTH, limit, offset)
+    .all<ConversationSummary>()
+
+  return results
+}
+
+/**
+ * Fetch a conversation with all its messages, or null if the user has no such conversation
+ */
+export async function getConversation(
+  db: D1Database,
+  userId: string,
+  conversationId: string
+): Promise<Conversation | null> {
+  const conversation = await db
+    .prepare(
+      `SELECT id, created_at AS createdAt, updated_at AS updatedAt
+       FROM conversations WHERE user_id = ?1 AND id = ?2`
+    )
+    .bind(userId, conversationId)
+    .first<Omit<Conversation, 'messages'>>()
+
+  if (!conversation) {
+    return null
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT role, content, created_at AS createdAt FROM messages
+       WHERE user_id = ?1 AND conversation_id = ?2
+       ORDER BY id`
+    )
+    .bind(userId, conversationId)
+    .all<StoredMessage>()
+
+  return { ...conversation, messages: results }
+}
+
+/**
+ * Delete one conversation and its messages
+ * Returns false when the user has no such conversation
+ */
+export async function deleteConversation(
+  db: D1Database,
+  userId: string,
+  conversationId: string
+): Promise<boolean> {
+  const [, deleted] = await db.batch([
+    db
+      .prepare('DELETE FROM messages WHERE user_id = ?1 AND conversation_id = ?2')
+      .bind(userId, conversationId),
+    db
+      .prepare('DELETE FROM conversations WHERE user_id = ?1 AND id = ?2')
+      .bind(userId, conversationId),
+  ])
+
+  return deleted.meta.changes > 0
+}
+
+/**
+ * Delete every conversation of a user ("erase all my data")
+ * Returns the number of conversations deleted
+ */
+export async function deleteAllConversations(db: D1Database, userId: string): Promise<number> {
+  const [, deleted] = await db.batch([
+    db.prepare('DELETE FROM messages WHERE user_id = ?1').bind(userId),
+    db.prepare('DELETE FROM conversations WHERE user_id = ?1').bind(userId),
+  ])
+
+  return deleted.meta.changes
+}
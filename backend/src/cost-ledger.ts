@@ -0,0 +1,71 @@
+import type { GenerationCost } from './models'
+
+export interface CostRecord {
+  userId: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cost: GenerationCost
+}
+
+/** Owner of the usage and cost rows of users who erased their data, never a valid session user ID */
+export const ERASED_USER_ID = ':erased'
+
+/** UTC day of a date as YYYY-MM-DD, the ledger's day key */
+export function ledgerDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Add a generation to the user's ledger row for today and this model
+ */
+export async function recordCost(db: D1Database, record: CostRecord, now = new Date()) {
+  const reportedUsd = record.cost.source === 'provider' ? record.cost.totalUsd : 0
+
+  await db
+    .prepare(
+      `INSERT INTO cost_ledger
+         (user_id, day, model, requests, input_tokens, output_tokens, cost_usd, reported_cost_usd)
+       VALUES (?1, ?2, ?3, 1, ?4, ?5, ?6, ?7)
+       ON CONFLICT (user_id, day, model) DO UPDATE SET
+         requests = requests + 1,
+         input_tokens = input_tokens + excluded.input_tokens,
+         output_tokens = output_tokens + excluded.output_tokens,
+         cost_usd = cost_usd + excluded.cost_usd,
+         reported_cost_usd = reported_cost_usd + excluded.reported_cost_usd`
+    )
+    .bind(
+      record.userId,
+      ledgerDay(now),
+      record.model,
+      record.inputTokens,
+      record.outputTokens,
+      record.cost.totalUsd,
+      reportedUsd
+    )
+    .run()
+}
+
+/**
+ * Move a user's ledger rows to `ERASED_USER_ID` ("erase all my data")
+ * Rows of the same day and model are merged, so the totals per day and model stay unchanged
+ */
+export async function anonymizeCosts(db: D1Database, userId: string) {
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO cost_ledger
+           (user_id, day, model, requests, input_tokens, output_tokens, cost_usd, reported_cost_usd)
+         SELECT ?2, day, model, requests, input_tokens, output_tokens, cost_usd, reported_cost_usd
+         FROM cost_ledger WHERE user_id = ?1
+         ON CONFLICT (user_id, day, model) DO UPDATE SET
+           requests = requests + excluded.requests,
+           input_tokens = input_tokens + excluded.input_tokens,
+           output_tokens = output_tokens + excluded.output_tokens,
+           cost_usd = cost_usd + excluded.cost_usd,
+           reported_cost_usd = reported_cost_usd + excluded.reported_cost_usd`
+      )
+      .bind(userId, ERASED_USER_ID),
+    db.prepare('DELETE FROM cost_ledger WHERE user_id = ?1').bind(userId),
+  ])
+}
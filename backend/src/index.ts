@@ -2,186 +2,1001 @@ import type { Context } from 'hono'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
-import { streamSSE } from 'hono/streaming'
+import { parseUsageQuery, requireAdmin } from './admin'
+import {
+  consumeGeneration,
+  type GenerationResult,
+  mergeGenerations,
+  negotiateFormat,
+  pipeGeneration,
+  RESPONSE_CONTENT_TYPES,
+  type ResponseFormat,
+  STREAM_ERROR_MESSAGES,
+  type UpstreamTimeouts,
+} from './chat-stream'
+import {
+  appendToConversation,
+  type ChatMessage,
+  conversationLength,
+  deleteAllConversations,
+  deleteConversation,
+  fitHistory,
+  getConversation,
+  isValidConversationId,
+  listConversations,
+  loadConversation,
+  validateMessages,
+} from './conversations'
+import { anonymizeCosts, recordCost } from './cost-ledger'
+import { AUTO_MODEL, type RoutingDecision, routeAutoModel } from './model-router'
+import {
+  type GenerationCost,
+  generationCost,
+  listEnabledModels,
+  type ModelPolicy,
+  resolveModel,
+} from './models'
 import { captureLLMEvent, createPostHogClient } from './posthog'
+import { type RenderedTemplate, renderPromptTemplate } from './prompt-templates'
+import {
+  createProviderChain,
+  type GenerationOptions,
+  ProviderError,
+  type ProviderName,
+  type ProviderUsage,
+  streamWithFailover,
+} from './providers'
+import {
+  consumeQuota,
+  getQuotaReport,
+  getQuotaStatus,
+  type QuotaStatus,
+  releaseQuota,
+  resetQuotas,
+} from './quota'
+import {
+  inspectRateLimit,
+  peekRateLimit,
+  type RateLimiterDurableObject,
+  type RateLimitRule,
+  rateLimiter,
+  resetRateLimits,
+} from './rate-limiter'
+import {
+  ANALYTICS_OPT_OUT_HEADER,
+  isAnalyticsOptOut,
+  isSampledOut,
+  parseRedactionConfig,
+} from './redaction'
+import {
+  NONCE_HEADER,
+  registerInstallKey,
+  requestSigning,
+  revokeInstallKey,
+  rotateInstallKey,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from './request-signing'
+import {
+  type CachedResponse,
+  getCachedResponse,
+  putCachedResponse,
+  replayCachedResponse,
+  responseCacheKey,
+} from './response-cache'
+import {
+  constantTimeEqual,
+  isValidUserId,
+  parseSigningKeys,
+  requireSession,
+  SESSION_TTL_SECONDS,
+  signSessionToken,
+} from './session'
+import {
+  createGenerationRecorder,
+  createToolResultsRequester,
+  type GenerationBufferDurableObject,
+  getGenerationBuffer,
+  isValidTraceId,
+} from './stream-buffer'
+import {
+  buildRepairMessages,
+  type JsonSchemaFormat,
+  parseStructuredOutput,
+  validateResponseFormat,
+} from './structured-output'
+import {
+  chargeTokenBudget,
+  checkTokenBudget,
+  getBudgetReport,
+  resetTokenBudgets,
+} from './token-budget'
+import { runToolLoop } from './tool-loop'
+import {
+  TOOL_DEFINITIONS,
+  type ToolsRequest,
+  uploadedDataResolver,
+  validateToolsRequest,
+  workoutHistoryResolver,
+} from './tools'
+import { anonymizeUsage, queryUsage, recordUsage, type UsageEvent } from './usage'
+import {
+  clearLimitOverride,
+  getLimitOverride,
+  type LimitOverride,
+  loadLimitOverride,
+  setLimitOverride,
+  validateLimitOverride,
+} from './user-limits'
+import {
+  deleteAllWorkouts,
+  listWorkouts,
+  syncWorkouts,
+  validateWorkoutSync,
+} from './workout-history'
+import { buildWorkoutContext, validateWorkout } from './workouts'
+
+export { RateLimiterDurableObject } from './rate-limiter'
+export { GenerationBufferDurableObject } from './stream-buffer'
 
 type Bindings = {
   OPENROUTER_API_KEY: string
+  ANTHROPIC_API_KEY?: string
+  OPENAI_API_KEY?: string
+  AI?: Ai
+  PROVIDER_CHAIN?: string
+  // "true" rejects chat requests without a server-owned prompt template
+  REQUIRE_PROMPT_TEMPLATE?: string
+  // Accepted X-App-Key values, comma-separated (several during a rotation)
   APP_SECRET: string
+  // Session JWT keys as comma-separated "kid:secret" pairs, the first one signs
+  SESSION_SIGNING_KEYS: string
   RATE_LIMITER: KVNamespace
+  RATE_LIMITER_DO: DurableObjectNamespace<RateLimiterDurableObject>
+  GENERATION_BUFFER: DurableObjectNamespace<GenerationBufferDurableObject>
+  // Seconds a generation keeps running after its client disconnected, waiting for a resume
+  STREAM_RESUME_GRACE_SECONDS?: string
+  // Seconds without a token before a generation fails with upstream_timeout
+  UPSTREAM_FIRST_TOKEN_TIMEOUT_SECONDS?: string
+  UPSTREAM_IDLE_TIMEOUT_SECONDS?: string
+  // Seconds between SSE keep-alive comments
+  SSE_HEARTBEAT_SECONDS?: string
+  DB: D1Database
   POSTHOG_API_KEY: string
   POSTHOG_HOST: string
+  // X-Admin-Key values accepted on /admin routes, comma-separated
+  ADMIN_SECRET?: string
+  // Redaction of PostHog captures, see RedactionConfig in src/redaction.ts
+  POSTHOG_MASK_NUMBERS?: string
+  POSTHOG_TEXT_MODE?: string
+  POSTHOG_IP_MODE?: string
+  POSTHOG_SAMPLE_RATE?: string
 }
 
 type Variables = {
-  rateLimitKey: string
+  // Set from the session token by requireSession
+  userId: string
+  // Admin-granted factor on the user's limits, set by loadLimitOverride
+  limitMultiplier?: number
+  // Whether the request carried a valid signature, set by requestSigning
+  signedRequest?: boolean
 }
 
 interface ChatRequest {
-  prompt: string
-  systemPrompt: string
+  // Single-turn shape (kept for older app versions)
+  prompt?: string
+  systemPrompt?: string
+  // Multi-turn shape, optionally starting with a system message
+  messages?: ChatMessage[]
+  // Server-stored thread: only the new turn has to be sent
+  conversationId?: string
+  // Server-owned system prompt, replaces systemPrompt
+  templateId?: string
+  variables?: Record<string, unknown>
   model: string
+  // false asks for a single JSON body, like `Accept: application/json`
+  stream?: boolean
+  // What to do once a premium model's monthly quota is exhausted (default: reject)
+  onQuotaExceeded?: 'reject' | 'downgrade'
+  // JSON schema the answer must match (JSON responses only)
+  responseFormat?: JsonSchemaFormat
+  // Lets the model look up workout history, see ToolsRequest in src/tools.ts
+  tools?: ToolsRequest
 }
 
-interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant'
-  content: string
-}
-
-interface OpenRouterRequest {
+interface WorkoutAnalysisRequest {
+  // Structured metrics, see WorkoutPayload in src/workouts.ts
+  workout: unknown
+  // Optional user question, defaults to a general analysis
+  question?: string
   model: string
-  messages: OpenRouterMessage[]
-  max_tokens: number
-  temperature: number
-  stream: boolean
+  stream?: boolean
+  onQuotaExceeded?: 'reject' | 'downgrade'
+  responseFormat?: JsonSchemaFormat
+  conversationId?: string
 }
 
-interface StreamChunk {
-  choices?: Array<{
-    delta?: {
-      content?: string
-    }
-  }>
-  usage?: {
-    prompt_tokens?: number
-    completion_tokens?: number
-    total_tokens?: number
-  }
+const USER_RATE_LIMIT: RateLimitRule = {
+  name: 'user',
+  scope: 'user',
+  limit: 100,
+  windowSeconds: 3600,
 }
-
-const RATE_LIMIT = 100
-const RATE_LIMIT_WINDOW = 3600
+const RATE_LIMIT_RULES: RateLimitRule[] = [
+  USER_RATE_LIMIT,
+  // Several users can share an IP (carrier NAT), keep this one looser
+  { name: 'ip', scope: 'ip', limit: 300, windowSeconds: 3600 },
+  // Burst protection on the routes that cost money
+  {
+    name: 'chat-burst',
+    scope: 'user',
+    limit: 10,
+    windowSeconds: 60,
+    paths: ['/api/chat', '/api/chat/stream', '/api/workouts/analyze'],
+  },
+]
+const USER_RATE_LIMIT_RULES = RATE_LIMIT_RULES.filter((rule) => rule.scope === 'user')
+const PUBLIC_API_PATHS = ['/api/session']
+// Routes refusing unsigned requests, signatures stay optional elsewhere for older app versions
+const SIGNED_API_PATHS = [
+  '/api/conversations',
+  '/api/conversations/:id',
+  '/api/workouts',
+  '/api/workouts/sync',
+  '/api/register/rotate',
+]
 const MAX_PROMPT_LENGTH = 2000
-const MAX_TOKENS = 2000
-const AI_TEMPERATURE = 0.7
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions'
-const DEFAULT_APP_SECRET = 'healthapp-ios-v1'
+const DEFAULT_WORKOUT_QUESTION = 'Analyze this workout.'
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+const DEFAULT_RESUME_GRACE_SECONDS = 15
+const DEFAULT_FIRST_TOKEN_TIMEOUT_SECONDS = 30
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 20
+const DEFAULT_HEARTBEAT_SECONDS = 15
 
 type AppContext = Context<{ Bindings: Bindings; Variables: Variables }>
 
+type ParsedChatInput =
+  | { ok: true; systemPrompt?: string; turns: ChatMessage[]; prompt: string }
+  | { ok: false; message: string }
+
+type ChatRequestParsing =
+  | { ok: true; request: ChatRequest }
+  | { ok: false; message: string; errors?: string[] }
+
+type TemplateDecision =
+  | { ok: true; template?: RenderedTemplate }
+  | { ok: false; response: Response }
+
+type ModelSelection =
+  | { ok: true; policy: ModelPolicy; routing?: RoutingDecision }
+  | { ok: false; response: Response }
+
+type QuotaDecision =
+  | { ok: true; policy: ModelPolicy; quota?: QuotaStatus; downgradedFrom?: string }
+  | { ok: false; response: Response }
+
+/**
+ * Only used to open a session, every other /api route requires the session token
+ */
 function validateAppAuth(c: AppContext): boolean {
   const appKey = c.req.header('X-App-Key')
-  const expectedKey = c.env.APP_SECRET || DEFAULT_APP_SECRET
-  return appKey === expectedKey
+  const acceptedKeys = (c.env.APP_SECRET ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+  return !!appKey && acceptedKeys.some((key) => constantTimeEqual(key, appKey))
+}
+
+function parsePageParam(
+  value: string | undefined,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN
+  if (Number.isNaN(parsed)) {
+    return fallback
+  }
+  return Math.min(Math.max(parsed, min), max)
+}
+
+/**
+ * Duration variable in milliseconds, `fallback` seconds when unset or invalid
+ */
+function configuredMs(value: string | undefined, fallback: number): number {
+  const seconds = Number(value)
+  return (value && seconds >= 0 ? seconds : fallback) * 1000
+}
+
+function upstreamTimeouts(c: AppContext): UpstreamTimeouts {
+  return {
+    firstTokenMs: configuredMs(
+      c.env.UPSTREAM_FIRST_TOKEN_TIMEOUT_SECONDS,
+      DEFAULT_FIRST_TOKEN_TIMEOUT_SECONDS
+    ),
+    idleMs: configuredMs(c.env.UPSTREAM_IDLE_TIMEOUT_SECONDS, DEFAULT_IDLE_TIMEOUT_SECONDS),
+  }
+}
+
+/**
+ * Last-Event-ID header or `lastEventId` parameter, 0 when absent, null when not an event ID
+ */
+function parseLastEventId(c: AppContext): number | null {
+  const value = c.req.header('Last-Event-ID') ?? c.req.query('lastEventId')
+  if (value === undefined || value === '') {
+    return 0
+  }
+  return /^\d{1,10}$/.test(value) ? Number(value) : null
 }
 
 function validateChatRequest(body: unknown): body is ChatRequest {
   const req = body as ChatRequest
-  return !!(req.prompt && req.systemPrompt && req.model)
-}
-
-async function callOpenRouter(
-  apiKey: string,
-  model: string,
-  systemPrompt: string,
-  prompt: string
-): Promise<Response> {
-  const requestBody: OpenRouterRequest = {
-    model,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: prompt },
-    ],
-    max_tokens: MAX_TOKENS,
-    temperature: AI_TEMPERATURE,
-    stream: true,
-  }
-
-  return fetch(OPENROUTER_API_URL, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'HTTP-Referer': 'https://insightrun.ai',
-      'X-Title': 'insightRun.ai',
-      'Content-Type': 'application/json',
+  return !!(
+    req?.model &&
+    (req.messages || (req.prompt && (req.systemPrompt || req.templateId || req.conversationId)))
+  )
+}
+
+function readChatRequest(body: unknown): ChatRequestParsing {
+  if (!validateChatRequest(body)) {
+    return {
+      ok: false,
+      message:
+        'Missing required fields: model and either prompt + systemPrompt/templateId or messages',
+    }
+  }
+  return { ok: true, request: body }
+}
+
+/**
+ * Turn a workout analysis into a chat request: the validated metrics become the compact
+ * context of the single-workout template and only the question is a user turn
+ */
+function readWorkoutAnalysisRequest(body: unknown): ChatRequestParsing {
+  const req = body as Partial<WorkoutAnalysisRequest> | null
+  if (!req?.model || req.workout === undefined) {
+    return { ok: false, message: 'Missing required fields: model and workout' }
+  }
+  if (req.question !== undefined && typeof req.question !== 'string') {
+    return { ok: false, message: 'question must be a string' }
+  }
+
+  const validation = validateWorkout(req.workout)
+  if (!validation.ok) {
+    return { ok: false, message: 'Invalid workout payload', errors: validation.errors }
+  }
+
+  return {
+    ok: true,
+    request: {
+      model: req.model,
+      stream: req.stream,
+      onQuotaExceeded: req.onQuotaExceeded,
+      responseFormat: req.responseFormat,
+      conversationId: req.conversationId,
+      templateId: 'single-workout',
+      variables: { context: buildWorkoutContext(validation.workout) },
+      prompt: req.question?.trim() || DEFAULT_WORKOUT_QUESTION,
     },
-    body: JSON.stringify(requestBody),
-  })
+  }
 }
 
-const app = new Hono<{ Bindings: Bindings; Variables: Variables }>()
+/**
+ * Normalize the single-turn fields and the `messages` array into validated turns
+ */
+function parseChatInput(body: ChatRequest): ParsedChatInput {
+  if (body.conversationId !== undefined && !isValidConversationId(body.conversationId)) {
+    return { ok: false, message: 'conversationId must be 1-64 letters, digits, "-" or "_"' }
+  }
 
-app.use('*', logger())
-app.use(
-  '*',
-  cors({
-    origin: '*',
-    allowMethods: ['POST', 'GET', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization', 'X-App-Key', 'X-User-ID'],
-    maxAge: 86400,
-  })
-)
+  const validation = validateMessages(
+    body.messages ?? [
+      ...(body.systemPrompt ? [{ role: 'system', content: body.systemPrompt }] : []),
+      { role: 'user', content: body.prompt },
+    ]
+  )
+  if (!validation.ok) {
+    return validation
+  }
 
-app.use('/api/*', async (c, next) => {
-  // Use X-User-ID header if available (from iOS app), fallback to IP for backward compatibility
-  const userId = c.req.header('X-User-ID')
-  const ip = c.req.header('CF-Connecting-IP') || 'unknown'
-  const identifier = userId || ip
-  const rateLimitKey = `ratelimit:${identifier}`
+  const [first, ...rest] = validation.messages
+  const hasSystemMessage = first.role === 'system'
+  const turns = hasSystemMessage ? rest : validation.messages
+
+  return {
+    ok: true,
+    systemPrompt: hasSystemMessage ? first.content : body.systemPrompt,
+    turns,
+    prompt: turns[turns.length - 1].content,
+  }
+}
 
-  c.set('rateLimitKey', rateLimitKey)
+/**
+ * Render the requested prompt template, which owns the system prompt
+ * Client-written system prompts are refused once REQUIRE_PROMPT_TEMPLATE is on
+ */
+function resolvePromptTemplate(
+  c: AppContext,
+  body: ChatRequest,
+  input: Extract<ParsedChatInput, { ok: true }>
+): TemplateDecision {
+  if (body.templateId === undefined) {
+    if (c.env.REQUIRE_PROMPT_TEMPLATE === 'true') {
+      return {
+        ok: false,
+        response: c.json(
+          {
+            error: 'Bad Request',
+            code: 'template_required',
+            message: 'templateId is required, client-supplied system prompts are not accepted',
+          },
+          400
+        ),
+      }
+    }
+    return { ok: true }
+  }
 
-  const count = await c.env.RATE_LIMITER.get(rateLimitKey)
-  const requestCount = count ? Number.parseInt(count, 10) : 0
+  if (typeof body.templateId !== 'string' || input.systemPrompt) {
+    return {
+      ok: false,
+      response: c.json(
+        {
+          error: 'Bad Request',
+          message: 'templateId must be a string and cannot be combined with a system prompt',
+        },
+        400
+      ),
+    }
+  }
 
-  if (requestCount >= RATE_LIMIT) {
-    return c.json(
-      {
-        error: 'Rate limit exceeded',
-        message: 'Too many requests. Please try again later.',
-        limit: RATE_LIMIT,
-        retryAfter: RATE_LIMIT_WINDOW,
-      },
-      429
+  const rendering = renderPromptTemplate(body.templateId, body.variables)
+  if (!rendering.ok) {
+    return {
+      ok: false,
+      response: c.json(
+        { error: 'Bad Request', code: rendering.code, message: rendering.message },
+        400
+      ),
+    }
+  }
+
+  c.header('X-Prompt-Template', `${rendering.template.id}@${rendering.template.version}`)
+  return { ok: true, template: rendering.template }
+}
+
+/**
+ * Full message list sent upstream: system prompt, stored history, then the new turns
+ */
+async function buildConversation(
+  c: AppContext,
+  userId: string,
+  input: Extract<ParsedChatInput, { ok: true }>,
+  conversationId?: string
+): Promise<ChatMessage[]> {
+  const history = conversationId ? await loadConversation(c.env.DB, userId, conversationId) : []
+  const turns = fitHistory(history, input.turns)
+
+  return input.systemPrompt ? [{ role: 'system', content: input.systemPrompt }, ...turns] : turns
+}
+
+/**
+ * Store the new turns and the assistant's answer in the conversation thread
+ */
+function saveConversationTurn(
+  c: AppContext,
+  userId: string,
+  conversationId: string | undefined,
+  turns: ChatMessage[],
+  output: string
+) {
+  if (!conversationId || !output) {
+    return
+  }
+
+  c.executionCtx.waitUntil(
+    appendToConversation(c.env.DB, userId, conversationId, [
+      ...turns,
+      { role: 'assistant', content: output },
+    ]).catch((error) => console.error('Conversation save error:', error))
+  )
+}
+
+function modelNotAllowedResponse(c: AppContext, code: string, message: string) {
+  return c.json(
+    {
+      error: 'Bad Request',
+      code,
+      message,
+      allowedModels: [AUTO_MODEL, ...listEnabledModels()],
+    },
+    400
+  )
+}
+
+interface ResponseCacheEntry {
+  key: string
+  ttlSeconds: number
+}
+
+interface CacheLookup {
+  entry?: ResponseCacheEntry
+  hit?: CachedResponse
+}
+
+/** Debugging aid: `X-Cache-Bypass: 1` neither reads nor writes the response cache */
+function isCacheBypassed(c: AppContext): boolean {
+  return !!c.req.header('X-Cache-Bypass')
+}
+
+/**
+ * Look the request up in the response cache and set the X-Cache header
+ * Only requests rendered from a template with a cache TTL are cacheable
+ */
+async function lookupResponseCache(
+  c: AppContext,
+  template: RenderedTemplate | undefined,
+  policy: ModelPolicy,
+  messages: ChatMessage[],
+  responseFormat?: JsonSchemaFormat
+): Promise<CacheLookup> {
+  if (!template?.cacheTtlSeconds) {
+    return {}
+  }
+  if (isCacheBypassed(c)) {
+    c.header('X-Cache', 'BYPASS')
+    return {}
+  }
+
+  const key = await responseCacheKey(policy.id, messages, responseFormat)
+  const hit = await getCachedResponse(c.env.RATE_LIMITER, key)
+  c.header('X-Cache', hit ? 'HIT' : 'MISS')
+
+  return { entry: { key, ttlSeconds: template.cacheTtlSeconds }, hit: hit ?? undefined }
+}
+
+/**
+ * Resolve `model: "auto"` from the question's complexity
+ * The classifier call is charged to the token budget like any generation
+ */
+async function selectAutoModel(
+  c: AppContext,
+  userId: string,
+  prompt: string,
+  templateId: string | undefined
+): Promise<ModelSelection> {
+  const routing = await routeAutoModel(
+    createProviderChain(c.env),
+    prompt,
+    templateId,
+    isCacheBypassed(c)
+      ? undefined
+      : { kv: c.env.RATE_LIMITER, waitUntil: (promise) => c.executionCtx.waitUntil(promise) }
+  )
+
+  if (routing.classification) {
+    chargeGeneration(
+      c,
+      userId,
+      routing.classification.policy,
+      routing.classification.provider,
+      routing.classification.messages,
+      routing.classification.output,
+      routing.classification.usage
     )
   }
 
-  await next()
+  c.header('X-Prompt-Complexity', routing.complexity)
 
-  await c.env.RATE_LIMITER.put(rateLimitKey, (requestCount + 1).toString(), {
-    expirationTtl: RATE_LIMIT_WINDOW,
-  })
-})
+  const lookup = resolveModel(routing.model)
+  if (!lookup.ok) {
+    return { ok: false, response: modelNotAllowedResponse(c, lookup.code, lookup.message) }
+  }
+  return { ok: true, policy: lookup.policy, routing }
+}
 
-app.get('/', (c) => {
-  return c.json({
-    status: 'ok',
-    service: 'HealthApp Backend API',
-    version: '1.0.0',
-    timestamp: new Date().toISOString(),
-  })
-})
+/**
+ * Enforce the monthly quota of premium models
+ * Returns the policy to serve, which is the fallback model when downgrading
+ */
+async function checkPremiumQuota(
+  c: AppContext,
+  userId: string,
+  policy: ModelPolicy,
+  onQuotaExceeded: ChatRequest['onQuotaExceeded']
+): Promise<QuotaDecision> {
+  if (policy.monthlyQuota === undefined) {
+    return { ok: true, policy }
+  }
 
-app.get('/health', (c) => {
-  return c.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-  })
-})
+  const quota = await getQuotaStatus(
+    c.env.RATE_LIMITER_DO,
+    userId,
+    policy,
+    c.get('limitMultiplier')
+  )
+  if (quota.remaining > 0) {
+    return { ok: true, policy, quota }
+  }
 
-app.post('/api/chat', async (c) => {
-  const startTime = Date.now()
+  return exhaustedQuotaDecision(c, policy, quota, onQuotaExceeded)
+}
+
+/**
+ * Downgrade to the fallback model or refuse, once the premium quota is used up
+ */
+function exhaustedQuotaDecision(
+  c: AppContext,
+  policy: ModelPolicy,
+  quota: QuotaStatus,
+  onQuotaExceeded: ChatRequest['onQuotaExceeded']
+): QuotaDecision {
+  const fallback = policy.fallbackModel ? resolveModel(policy.fallbackModel) : undefined
+  if (onQuotaExceeded === 'downgrade' && fallback?.ok) {
+    c.header('X-Quota-Exceeded', 'premium_quota_exceeded')
+    c.header('X-Model-Downgraded-From', policy.id)
+    return { ok: true, policy: fallback.policy, downgradedFrom: policy.id }
+  }
+
+  return { ok: false, response: premiumQuotaExceededResponse(c, policy, quota) }
+}
+
+function premiumQuotaExceededResponse(c: AppContext, policy: ModelPolicy, quota: QuotaStatus) {
+  return c.json(
+    {
+      error: 'Quota Exceeded',
+      code: 'premium_quota_exceeded',
+      message: `Monthly quota for ${policy.displayName} exhausted`,
+      quota,
+      fallbackModel: policy.fallbackModel,
+    },
+    429
+  )
+}
+
+async function tokenBudgetExceededResponse(c: AppContext, userId: string) {
+  const budget = await checkTokenBudget(c.env.RATE_LIMITER_DO, userId, c.get('limitMultiplier'))
+  if (budget.allowed) {
+    return undefined
+  }
+
+  c.header('Retry-After', budget.retryAfter.toString())
+  return c.json(
+    {
+      error: 'Rate limit exceeded',
+      code: 'token_budget_exceeded',
+      message: `Your ${budget.budget} AI budget is used up. Please try again later.`,
+      budget: budget.budget,
+      retryAfter: budget.retryAfter,
+    },
+    429
+  )
+}
 
+/**
+ * Token counts of a generation, ~4 characters per token when the provider sent no usage block
+ * (failed or cancelled streams end before it)
+ */
+function countGenerationTokens(
+  messages: ChatMessage[],
+  output: string,
+  usage: ProviderUsage = {}
+): { inputTokens: number; outputTokens: number } {
+  return {
+    inputTokens: usage.inputTokens ?? Math.ceil(conversationLength(messages) / 4),
+    outputTokens: usage.outputTokens ?? Math.ceil(output.length / 4),
+  }
+}
+
+/**
+ * Charge a finished generation against the user's token budgets and record it in the cost ledger
+ */
+function chargeGeneration(
+  c: AppContext,
+  userId: string,
+  policy: ModelPolicy,
+  provider: ProviderName | undefined,
+  messages: ChatMessage[],
+  output: string,
+  usage: ProviderUsage = {}
+): GenerationCost {
+  const { inputTokens, outputTokens } = countGenerationTokens(messages, output, usage)
+  const cost = generationCost(policy, provider, inputTokens, outputTokens, usage.costUsd)
+
+  c.executionCtx.waitUntil(
+    chargeTokenBudget(
+      c.env.RATE_LIMITER_DO,
+      userId,
+      inputTokens + outputTokens,
+      cost.totalUsd,
+      c.get('limitMultiplier')
+    ).catch((error) => console.error('Token budget charge error:', error))
+  )
+  c.executionCtx.waitUntil(
+    recordCost(c.env.DB, { userId, model: policy.id, inputTokens, outputTokens, cost }).catch(
+      (error) => console.error('Cost ledger error:', error)
+    )
+  )
+
+  return cost
+}
+
+function recordUsageEvent(c: AppContext, event: UsageEvent) {
+  c.executionCtx.waitUntil(
+    recordUsage(c.env.DB, event).catch((error) => console.error('Usage event error:', error))
+  )
+}
+
+type GenerationStart =
+  | { ok: true; body: ReadableStream<Uint8Array>; provider: ProviderName; providerModel: string }
+  | { ok: false; response: Response }
+
+/**
+ * Open the upstream stream through the provider fallback chain
+ * Failures are turned into a JSON error response, nothing has been streamed yet at this point
+ * `signal` aborts the upstream request, e.g. once the client disconnected
+ */
+async function startGeneration(
+  c: AppContext,
+  policy: ModelPolicy,
+  messages: ChatMessage[],
+  options: GenerationOptions = {}
+): Promise<GenerationStart> {
   try {
-    if (!validateAppAuth(c)) {
-      return c.json({ error: 'Unauthorized', message: 'Invalid app key' }, 401)
+    const generation = await streamWithFailover(
+      createProviderChain(c.env),
+      policy,
+      messages,
+      options
+    )
+    c.header('X-Provider', generation.provider)
+    return { ok: true, ...generation }
+  } catch (error) {
+    if (!(error instanceof ProviderError)) {
+      throw error
+    }
+
+    console.error(`AI provider error (${error.provider} ${error.status}):`, error.details)
+
+    return {
+      ok: false,
+      response: c.json(
+        {
+          error: 'AI Service Error',
+          code: error.retryable ? 'upstream_unavailable' : 'upstream_error',
+          message: 'Failed to get response from AI service',
+          provider: error.provider,
+          upstreamStatus: error.status,
+        },
+        error.retryable ? 503 : 502
+      ),
     }
+  }
+}
+
+interface GenerationContext {
+  userId: string
+  ip: string
+  traceId: string
+  startTime: number
+  policy: ModelPolicy
+  provider: ProviderName
+  messages: ChatMessage[]
+  turns: ChatMessage[]
+  conversationId?: string
+  template?: RenderedTemplate
+  routing?: RoutingDecision
+  /** Where to store the answer once complete (cacheable misses only) */
+  cache?: ResponseCacheEntry
+  /** Replayed from the response cache: nothing to charge */
+  cacheHit?: boolean
+}
+
+/**
+ * Everything that happens once a generation ended: token budget charge, cost ledger,
+ * conversation thread update and PostHog capture
+ */
+function finalizeGeneration(c: AppContext, context: GenerationContext, result: GenerationResult) {
+  const { userId, policy, messages } = context
+  const { usage } = result
+  const providerUsage: ProviderUsage = {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    costUsd: usage.cost,
+  }
+  // A cancelled generation is counted up to where it stopped
+  const tokens = countGenerationTokens(messages, result.output, providerUsage)
+
+  // Cached answers cost nothing upstream
+  const cost = context.cacheHit
+    ? undefined
+    : chargeGeneration(c, userId, policy, context.provider, messages, result.output, providerUsage)
+
+  recordUsageEvent(c, {
+    userId,
+    route: c.req.path,
+    model: policy.id,
+    provider: context.provider,
+    // The client leaving is not a service error
+    status: result.cancelled || (result.completed && !result.error) ? 'ok' : 'error',
+    cacheHit: !!context.cacheHit,
+    latencyMs: Date.now() - context.startTime,
+    ...tokens,
+  })
 
-    const body = await c.req.json()
+  if (context.cache && result.completed && !result.error) {
+    c.executionCtx.waitUntil(
+      putCachedResponse(
+        c.env.RATE_LIMITER,
+        context.cache.key,
+        {
+          output: result.output,
+          usage,
+          provider: context.provider,
+          createdAt: new Date().toISOString(),
+        },
+        context.cache.ttlSeconds
+      ).catch((error) => console.error('Response cache write error:', error))
+    )
+  }
+
+  if (result.completed) {
+    saveConversationTurn(c, userId, context.conversationId, context.turns, result.output)
+  }
 
-    if (!validateChatRequest(body)) {
+  const redaction = parseRedactionConfig(c.env)
+  if (
+    c.env.POSTHOG_API_KEY &&
+    c.env.POSTHOG_HOST &&
+    !isAnalyticsOptOut(c.req.header(ANALYTICS_OPT_OUT_HEADER)) &&
+    !isSampledOut(redaction)
+  ) {
+    const posthog = createPostHogClient({
+      apiKey: c.env.POSTHOG_API_KEY,
+      host: c.env.POSTHOG_HOST,
+    })
+    const latency = (Date.now() - context.startTime) / 1000
+
+    c.executionCtx.waitUntil(
+      (async () => {
+        try {
+          await captureLLMEvent(posthog, userId, context.traceId, redaction, {
+            model: policy.id,
+            provider: context.provider,
+            messages,
+            output: result.output,
+            ...tokens,
+            latency,
+            cost,
+            cacheHit: context.cacheHit,
+            cancelled: result.cancelled,
+            error: result.error,
+            errorCode: result.errorCode,
+            ip: context.ip,
+            routing: context.routing && {
+              complexity: context.routing.complexity,
+              source: context.routing.source,
+            },
+            promptTemplate: context.template && {
+              id: context.template.id,
+              version: context.template.version,
+            },
+          })
+          await posthog.shutdown()
+        } catch (error) {
+          console.error('PostHog capture error:', error)
+        }
+      })()
+    )
+  }
+}
+
+/**
+ * Shared pipeline of /api/chat, /api/chat/stream and /api/workouts/analyze
+ * Routes differ by their default response format and by how the body becomes a chat request;
+ * `?format=` or the Accept header picks another format
+ */
+async function handleChat(
+  c: AppContext,
+  defaultFormat: ResponseFormat,
+  readRequest: (body: unknown) => ChatRequestParsing = readChatRequest
+) {
+  const startTime = Date.now()
+
+  try {
+    const json = await c.req.json().catch(() => undefined)
+    if (json === undefined) {
+      return c.json({ error: 'Bad Request', message: 'Request body must be valid JSON' }, 400)
+    }
+    const parsed = readRequest(json)
+    if (!parsed.ok) {
       return c.json(
         {
           error: 'Bad Request',
-          message: 'Missing required fields: prompt, systemPrompt, model',
+          message: parsed.message,
+          ...(parsed.errors ? { errors: parsed.errors } : {}),
         },
         400
       )
     }
+    const body = parsed.request
+
+    // `stream: false` forces JSON, `stream: true` a streaming default; ?format= wins over both
+    const fallbackFormat = body.stream && defaultFormat === 'json' ? 'sse' : defaultFormat
+    const format =
+      body.stream === false && !c.req.query('format')
+        ? 'json'
+        : negotiateFormat(c.req.query('format'), c.req.header('Accept'), fallbackFormat)
+    if (!format) {
+      return c.json(
+        {
+          error: 'Bad Request',
+          message: `Unsupported format (expected one of: ${Object.keys(RESPONSE_CONTENT_TYPES).join(', ')})`,
+        },
+        400
+      )
+    }
+
+    if (body.responseFormat !== undefined) {
+      const formatError = validateResponseFormat(body.responseFormat)
+      if (formatError) {
+        return c.json({ error: 'Bad Request', message: formatError }, 400)
+      }
+      if (format !== 'json') {
+        return c.json(
+          {
+            error: 'Bad Request',
+            message: 'responseFormat requires a JSON response (stream: false or format=json)',
+          },
+          400
+        )
+      }
+    }
+
+    const toolsValidation = body.tools === undefined ? undefined : validateToolsRequest(body.tools)
+    if (toolsValidation && !toolsValidation.ok) {
+      return c.json(
+        { error: 'Bad Request', message: 'Invalid tools payload', errors: toolsValidation.errors },
+        400
+      )
+    }
+    const tools = toolsValidation?.tools
+    if (tools && body.responseFormat !== undefined) {
+      return c.json(
+        { error: 'Bad Request', message: 'tools cannot be combined with responseFormat' },
+        400
+      )
+    }
+
+    const input = parseChatInput(body)
+    if (!input.ok) {
+      return c.json({ error: 'Bad Request', message: input.message }, 400)
+    }
+
+    // A stored thread is read and written like /api/conversations, which requires signing
+    if (body.conversationId !== undefined && !c.get('signedRequest')) {
+      return c.json(
+        {
+          error: 'Unauthorized',
+          code: 'missing_signature',
+          message: `conversationId requires a signed request (${SIGNATURE_HEADER})`,
+        },
+        401
+      )
+    }
+
+    const templateDecision = resolvePromptTemplate(c, body, input)
+    if (!templateDecision.ok) {
+      return templateDecision.response
+    }
 
-    const { prompt, systemPrompt, model } = body
+    const modelLookup = body.model === AUTO_MODEL ? undefined : resolveModel(body.model)
+    if (modelLookup && !modelLookup.ok) {
+      return modelNotAllowedResponse(c, modelLookup.code, modelLookup.message)
+    }
 
-    if (prompt.length > MAX_PROMPT_LENGTH) {
+    if (input.prompt.length > MAX_PROMPT_LENGTH) {
       return c.json(
         {
           error: 'Bad Request',
@@ -191,130 +1006,228 @@ app.post('/api/chat', async (c) => {
       )
     }
 
-    // Get user ID from X-User-ID header (from iOS app) or fallback to IP
-    const userId = c.req.header('X-User-ID') || c.req.header('CF-Connecting-IP') || 'unknown'
+    const userId = c.get('userId')
     const ip = c.req.header('CF-Connecting-IP') || 'unknown'
     const traceId = crypto.randomUUID()
+    c.header('X-Trace-ID', traceId)
 
-    const openRouterResponse = await callOpenRouter(
-      c.env.OPENROUTER_API_KEY,
-      model,
-      systemPrompt,
-      prompt
-    )
+    const budgetExceeded = await tokenBudgetExceededResponse(c, userId)
+    if (budgetExceeded) {
+      return budgetExceeded
+    }
 
-    if (!openRouterResponse.ok) {
-      const errorText = await openRouterResponse.text()
-      console.error('OpenRouter error:', errorText)
+    const selection: ModelSelection = modelLookup
+      ? { ok: true, policy: modelLookup.policy }
+      : await selectAutoModel(c, userId, input.prompt, body.templateId)
+    if (!selection.ok) {
+      return selection.response
+    }
 
-      return c.json(
-        {
-          error: 'AI Service Error',
-          message: 'Failed to get response from AI service',
-          details: errorText,
-        },
-        500
-      )
+    // Auto routing falls back to the cheaper model rather than failing
+    const onQuotaExceeded = body.onQuotaExceeded ?? (selection.routing ? 'downgrade' : undefined)
+    let quotaDecision = await checkPremiumQuota(c, userId, selection.policy, onQuotaExceeded)
+    if (!quotaDecision.ok) {
+      return quotaDecision.response
     }
 
-    // Variables to capture during streaming
-    let fullOutput = ''
-    let inputTokens: number | undefined
-    let outputTokens: number | undefined
-    let totalTokens: number | undefined
+    const messages = await buildConversation(
+      c,
+      userId,
+      { ...input, systemPrompt: templateDecision.template?.systemPrompt ?? input.systemPrompt },
+      body.conversationId
+    )
 
-    return streamSSE(c, async (stream) => {
-      const reader = openRouterResponse.body?.getReader()
-      if (!reader) {
-        throw new Error('No response body')
+    // Answers built from tool results depend on data outside the messages, never cached
+    const lookupCache = async (policy: ModelPolicy): Promise<CacheLookup> =>
+      tools
+        ? {}
+        : lookupResponseCache(c, templateDecision.template, policy, messages, body.responseFormat)
+    let cached = await lookupCache(quotaDecision.policy)
+
+    // Taken before the upstream call; concurrent requests may have used the quota since the check
+    let quotaTaken = false
+    if (quotaDecision.quota && !cached.hit) {
+      const { quota } = quotaDecision
+      quotaTaken = !!(await consumeQuota(
+        c.env.RATE_LIMITER_DO,
+        userId,
+        quotaDecision.policy,
+        quota
+      ))
+      if (!quotaTaken) {
+        quotaDecision = exhaustedQuotaDecision(
+          c,
+          quotaDecision.policy,
+          { ...quota, used: quota.limit, remaining: 0 },
+          onQuotaExceeded
+        )
+        if (!quotaDecision.ok) {
+          return quotaDecision.response
+        }
+        cached = await lookupCache(quotaDecision.policy)
       }
+    }
+    if (selection.routing) {
+      c.header('X-Model-Selected', quotaDecision.policy.id)
+    }
+
+    // Aborted by pipeGeneration when a streaming client disconnects for good
+    const upstream = new AbortController()
+    const generation: GenerationStart = cached.hit
+      ? {
+          ok: true,
+          body: replayCachedResponse(cached.hit),
+          provider: cached.hit.provider,
+          providerModel: quotaDecision.policy.providerModels[cached.hit.provider] ?? '',
+        }
+      : await startGeneration(c, quotaDecision.policy, messages, {
+          responseFormat: body.responseFormat,
+          signal: upstream.signal,
+          ...(tools ? { tools: TOOL_DEFINITIONS, toolChoice: 'auto' } : {}),
+        })
+    if (!generation.ok) {
+      if (quotaTaken) {
+        c.executionCtx.waitUntil(
+          releaseQuota(c.env.RATE_LIMITER_DO, userId, quotaDecision.policy).catch((error) =>
+            console.error('Quota release error:', error)
+          )
+        )
+      }
+      recordUsageEvent(c, {
+        userId,
+        route: c.req.path,
+        model: quotaDecision.policy.id,
+        status: 'error',
+        cacheHit: false,
+        latencyMs: Date.now() - startTime,
+        inputTokens: 0,
+        outputTokens: 0,
+      })
+      return generation.response
+    }
 
-      const decoder = new TextDecoder()
-      let buffer = ''
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-
-          // Keep the last incomplete line in buffer
-          buffer = lines.pop() || ''
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6).trim()
-
-              if (data === '[DONE]') {
-                await stream.writeSSE({
-                  data: '[DONE]',
-                })
-
-                // Capture LLM event with all collected data
-                const latency = (Date.now() - startTime) / 1000
-
-                if (c.env.POSTHOG_API_KEY && c.env.POSTHOG_HOST) {
-                  const posthog = createPostHogClient({
-                    apiKey: c.env.POSTHOG_API_KEY,
-                    host: c.env.POSTHOG_HOST,
-                  })
-
-                  c.executionCtx.waitUntil(
-                    (async () => {
-                      try {
-                        await captureLLMEvent(posthog, userId, traceId, {
-                          model,
-                          input: prompt,
-                          systemPrompt,
-                          output: fullOutput,
-                          inputTokens,
-                          outputTokens,
-                          latency,
-                          cost: totalTokens ? totalTokens * 0.000001 : undefined, // Rough estimation
-                          ip,
-                        })
-                        await posthog.shutdown()
-                      } catch (error) {
-                        console.error('PostHog capture error:', error)
-                      }
-                    })()
-                  )
-                }
-
-                return
-              }
-
-              if (data) {
-                try {
-                  const json: StreamChunk = JSON.parse(data)
-                  const content = json.choices?.[0]?.delta?.content
-
-                  if (content) {
-                    fullOutput += content
-                    await stream.writeSSE({
-                      data: JSON.stringify({ content }),
-                    })
-                  }
-
-                  // Capture usage data if present
-                  if (json.usage) {
-                    inputTokens = json.usage.prompt_tokens
-                    outputTokens = json.usage.completion_tokens
-                    totalTokens = json.usage.total_tokens
-                  }
-                } catch (parseError) {
-                  console.warn('JSON parse error:', parseError, 'Data:', data)
-                }
-              }
-            }
-          }
+    const context: GenerationContext = {
+      userId,
+      ip,
+      traceId,
+      startTime,
+      policy: quotaDecision.policy,
+      provider: generation.provider,
+      messages,
+      turns: input.turns,
+      conversationId: body.conversationId,
+      template: templateDecision.template,
+      routing: selection.routing,
+      cache: cached.hit ? undefined : cached.entry,
+      cacheHit: !!cached.hit,
+    }
+
+    // The tool loop applies the stall timeouts to each model call, not to the waits in between
+    const timeouts = tools ? undefined : upstreamTimeouts(c)
+    const upstreamBody = tools
+      ? runToolLoop(generation.body, {
+          chain: createProviderChain(c.env),
+          policy: quotaDecision.policy,
+          messages,
+          signal: upstream.signal,
+          timeouts: upstreamTimeouts(c),
+          // The synced history is only readable with a signature, as on /api/workouts
+          resolvers: [
+            uploadedDataResolver(tools),
+            ...(c.get('signedRequest') ? [workoutHistoryResolver(c.env.DB, userId)] : []),
+          ],
+          requestFromClient:
+            tools.clientResolution && format !== 'json'
+              ? createToolResultsRequester(c.env.GENERATION_BUFFER, traceId)
+              : undefined,
+        })
+      : generation.body
+
+    if (format === 'json') {
+      let result = await consumeGeneration(upstreamBody, undefined, timeouts)
+      let structured =
+        body.responseFormat && result.completed
+          ? parseStructuredOutput(result.output, body.responseFormat)
+          : undefined
+
+      // One repair attempt when the answer does not match the schema
+      if (body.responseFormat && structured && !structured.ok) {
+        const repair = await startGeneration(
+          c,
+          quotaDecision.policy,
+          buildRepairMessages(messages, result.output, body.responseFormat, structured.errors),
+          { responseFormat: body.responseFormat }
+        )
+        if (repair.ok) {
+          context.provider = repair.provider
+          result = mergeGenerations(
+            result,
+            await consumeGeneration(repair.body, undefined, timeouts)
+          )
+          structured = result.completed
+            ? parseStructuredOutput(result.output, body.responseFormat)
+            : undefined
         }
-      } catch (error) {
-        console.error('Streaming error:', error)
-        throw error
       }
+
+      if (structured && !structured.ok) {
+        // Never replay an answer that failed validation
+        context.cache = undefined
+      }
+      finalizeGeneration(c, context, result)
+
+      if (!result.completed) {
+        const code = result.errorCode ?? 'upstream_error'
+        return c.json(
+          { error: 'AI Service Error', code, message: STREAM_ERROR_MESSAGES[code], traceId },
+          code === 'upstream_timeout' ? 504 : 502
+        )
+      }
+
+      if (structured && !structured.ok) {
+        return c.json(
+          {
+            error: 'AI Service Error',
+            code: 'invalid_structured_output',
+            message: 'AI response does not match the requested JSON schema',
+            errors: structured.errors,
+            traceId,
+          },
+          502
+        )
+      }
+
+      return c.json({
+        response: result.output,
+        ...(structured?.ok ? { data: structured.data } : {}),
+        model: quotaDecision.policy.id,
+        usage: result.usage,
+        traceId,
+      })
+    }
+
+    const waitUntil = (promise: Promise<void>) => c.executionCtx.waitUntil(promise)
+    const stream = pipeGeneration(
+      upstreamBody,
+      format,
+      (result) => finalizeGeneration(c, context, result),
+      {
+        upstream,
+        waitUntil,
+        recorder: createGenerationRecorder(c.env.GENERATION_BUFFER, traceId, userId, waitUntil),
+        resumeGraceMs: configuredMs(
+          c.env.STREAM_RESUME_GRACE_SECONDS,
+          DEFAULT_RESUME_GRACE_SECONDS
+        ),
+        timeouts,
+        heartbeatMs: configuredMs(c.env.SSE_HEARTBEAT_SECONDS, DEFAULT_HEARTBEAT_SECONDS),
+      }
+    )
+
+    return c.body(stream, 200, {
+      'Content-Type': RESPONSE_CONTENT_TYPES[format],
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
     })
   } catch (error) {
     console.error('Chat endpoint error:', error)
@@ -327,160 +1240,432 @@ app.post('/api/chat', async (c) => {
       500
     )
   }
+}
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>()
+
+app.use('*', logger())
+app.use(
+  '*',
+  cors({
+    origin: '*',
+    allowMethods: ['POST', 'GET', 'PUT', 'DELETE', 'OPTIONS'],
+    allowHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-App-Key',
+      'X-User-ID',
+      'X-Admin-Key',
+      'Last-Event-ID',
+      'X-Cache-Bypass',
+      SIGNATURE_HEADER,
+      TIMESTAMP_HEADER,
+      NONCE_HEADER,
+      ANALYTICS_OPT_OUT_HEADER,
+    ],
+    maxAge: 86400,
+  })
+)
+
+// Session and signature first, so rate limits count the verified user
+app.use('/api/*', requireSession(PUBLIC_API_PATHS))
+app.use(
+  '/api/*',
+  requestSigning({ enforcedPaths: SIGNED_API_PATHS, publicPaths: PUBLIC_API_PATHS })
+)
+app.use('/api/*', loadLimitOverride())
+app.use('/api/*', rateLimiter(RATE_LIMIT_RULES))
+app.use('/admin/*', requireAdmin())
+
+app.get('/', (c) => {
+  return c.json({
+    status: 'ok',
+    service: 'HealthApp Backend API',
+    version: '1.0.0',
+    timestamp: new Date().toISOString(),
+  })
 })
 
-app.post('/api/chat/stream', async (c) => {
-  const startTime = Date.now()
+app.get('/health', (c) => {
+  return c.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+  })
+})
 
-  try {
-    if (!validateAppAuth(c)) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
+// Exchange the app key and the app's user ID for a short-lived session token
+app.post('/api/session', async (c) => {
+  if (!validateAppAuth(c)) {
+    return c.json({ error: 'Unauthorized', message: 'Invalid app key' }, 401)
+  }
 
-    const body = await c.req.json()
+  const userId = c.req.header('X-User-ID')?.trim()
+  if (!isValidUserId(userId)) {
+    return c.json(
+      {
+        error: 'Bad Request',
+        message: 'X-User-ID must be 1-128 letters, digits, "-" or "_"',
+      },
+      400
+    )
+  }
 
-    if (!validateChatRequest(body)) {
-      return c.json({ error: 'Bad Request', message: 'Missing required fields' }, 400)
-    }
+  const [signingKey] = parseSigningKeys(c.env.SESSION_SIGNING_KEYS)
+  if (!signingKey) {
+    console.error('SESSION_SIGNING_KEYS is not configured')
+    return c.json({ error: 'Internal Server Error', message: 'Sessions are not configured' }, 500)
+  }
 
-    const { prompt, systemPrompt, model } = body
+  const session = await signSessionToken(signingKey, userId)
 
-    // Get user ID from X-User-ID header (from iOS app) or fallback to IP
-    const userId = c.req.header('X-User-ID') || c.req.header('CF-Connecting-IP') || 'unknown'
-    const ip = c.req.header('CF-Connecting-IP') || 'unknown'
-    const traceId = crypto.randomUUID()
+  return c.json({
+    token: session.token,
+    tokenType: 'Bearer',
+    expiresIn: SESSION_TTL_SECONDS,
+    expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+  })
+})
 
-    const openRouterResponse = await callOpenRouter(
-      c.env.OPENROUTER_API_KEY,
-      model,
-      systemPrompt,
-      prompt
+// Issue the install's request signing key to the session's user, once
+app.post('/api/register', async (c) => {
+  const signingKey = await registerInstallKey(c.env.DB, c.get('userId'))
+  if (!signingKey) {
+    return c.json(
+      {
+        error: 'Conflict',
+        code: 'already_registered',
+        message: 'A signing key was already issued for this user ID',
+      },
+      409
     )
+  }
 
-    // Variables to capture during streaming
-    let fullOutput = ''
-    let inputTokens: number | undefined
-    let outputTokens: number | undefined
-    let totalTokens: number | undefined
+  return c.json({ signingKey, algorithm: 'HMAC-SHA256' }, 201)
+})
 
-    // Wrap the response body to capture tokens
-    const reader = openRouterResponse.body?.getReader()
-    if (!reader) {
-      return c.json({ error: 'No response body' }, 500)
-    }
+// Replace the signing key; signed with the current one, which stops working
+app.post('/api/register/rotate', async (c) => {
+  const signingKey = await rotateInstallKey(c.env.DB, c.get('userId'))
+  if (!signingKey) {
+    return c.json(
+      {
+        error: 'Conflict',
+        code: 'rotation_conflict',
+        message: 'The signing key was replaced by a concurrent rotation',
+      },
+      409
+    )
+  }
 
-    const decoder = new TextDecoder()
-    let buffer = ''
+  return c.json({ signingKey, algorithm: 'HMAC-SHA256' }, 201)
+})
 
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) {
-              // Capture LLM event with all collected data
-              const latency = (Date.now() - startTime) / 1000
-
-              if (c.env.POSTHOG_API_KEY && c.env.POSTHOG_HOST) {
-                const posthog = createPostHogClient({
-                  apiKey: c.env.POSTHOG_API_KEY,
-                  host: c.env.POSTHOG_HOST,
-                })
-
-                c.executionCtx.waitUntil(
-                  (async () => {
-                    try {
-                      await captureLLMEvent(posthog, userId, traceId, {
-                        model,
-                        input: prompt,
-                        systemPrompt,
-                        output: fullOutput,
-                        inputTokens,
-                        outputTokens,
-                        latency,
-                        cost: totalTokens ? totalTokens * 0.000001 : undefined,
-                        ip,
-                      })
-                      await posthog.shutdown()
-                    } catch (error) {
-                      console.error('PostHog capture error:', error)
-                    }
-                  })()
-                )
-              }
-
-              controller.close()
-              break
-            }
-
-            buffer += decoder.decode(value, { stream: true })
-            const lines = buffer.split('\n')
-            buffer = lines.pop() || ''
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6).trim()
-
-                if (data && data !== '[DONE]') {
-                  try {
-                    const json: StreamChunk = JSON.parse(data)
-                    const content = json.choices?.[0]?.delta?.content
-
-                    if (content) {
-                      fullOutput += content
-                    }
-
-                    // Capture usage data if present
-                    if (json.usage) {
-                      inputTokens = json.usage.prompt_tokens
-                      outputTokens = json.usage.completion_tokens
-                      totalTokens = json.usage.total_tokens
-                    }
-                  } catch (parseError) {
-                    console.warn('JSON parse error:', parseError)
-                  }
-                }
-              }
-            }
-
-            // Forward the chunk to the client
-            controller.enqueue(value)
-          }
-        } catch (error) {
-          console.error('Streaming error:', error)
-          controller.error(error)
-        }
+app.post('/api/chat', (c) => handleChat(c, 'sse'))
+
+app.post('/api/chat/stream', (c) => handleChat(c, 'openai'))
+
+// Structured workout analysis (JSON by default, streaming formats available like /api/chat)
+app.post('/api/workouts/analyze', (c) => handleChat(c, 'json', readWorkoutAnalysisRequest))
+
+// Resume a streamed generation after a dropped connection, without calling the model again
+app.get('/api/chat/streams/:traceId', async (c) => {
+  const traceId = c.req.param('traceId')
+  if (!isValidTraceId(traceId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid trace ID' }, 400)
+  }
+
+  const lastEventId = parseLastEventId(c)
+  if (lastEventId === null) {
+    return c.json({ error: 'Bad Request', message: 'Invalid Last-Event-ID' }, 400)
+  }
+
+  const format = negotiateFormat(c.req.query('format'), c.req.header('Accept'), 'sse')
+  if (!format || format === 'json') {
+    return c.json(
+      {
+        error: 'Bad Request',
+        message: 'Unsupported format (expected one of: openai, sse, ndjson)',
       },
-    })
+      400
+    )
+  }
 
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
+  const stream = await getGenerationBuffer(c.env.GENERATION_BUFFER, traceId).read(
+    c.get('userId'),
+    lastEventId,
+    format,
+    configuredMs(c.env.SSE_HEARTBEAT_SECONDS, DEFAULT_HEARTBEAT_SECONDS)
+  )
+  if (!stream) {
+    return c.json(
+      {
+        error: 'Not Found',
+        code: 'stream_not_found',
+        message: 'No resumable generation for this trace ID (expired or not yours)',
       },
-    })
-  } catch (error) {
-    console.error('Streaming error:', error)
-    return c.json({ error: 'Streaming failed' }, 500)
+      404
+    )
   }
+
+  return c.body(stream, 200, {
+    'Content-Type': RESPONSE_CONTENT_TYPES[format],
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Trace-ID': traceId,
+  })
+})
+
+// App's answer to a `tool_request` event: { results: { [callId]: result } }
+app.post('/api/chat/streams/:traceId/tool-results', async (c) => {
+  const traceId = c.req.param('traceId')
+  if (!isValidTraceId(traceId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid trace ID' }, 400)
+  }
+
+  const body = await c.req.json<{ results?: unknown }>().catch(() => null)
+  const results = body?.results
+  if (!results || typeof results !== 'object' || Array.isArray(results)) {
+    return c.json(
+      { error: 'Bad Request', message: 'results must be an object keyed by tool call ID' },
+      400
+    )
+  }
+
+  const delivered = await getGenerationBuffer(c.env.GENERATION_BUFFER, traceId).submitToolResults(
+    c.get('userId'),
+    results as Record<string, unknown>
+  )
+  if (!delivered) {
+    return c.json(
+      {
+        error: 'Not Found',
+        code: 'no_pending_tool_calls',
+        message: 'No generation waiting for tool results for this trace ID',
+      },
+      404
+    )
+  }
+
+  return c.body(null, 204)
 })
 
 app.get('/api/stats', async (c) => {
-  // Use X-User-ID header if available, fallback to IP
-  const userId = c.req.header('X-User-ID')
+  const identifier = c.get('userId')
   const ip = c.req.header('CF-Connecting-IP') || 'unknown'
-  const identifier = userId || ip
-  const rateLimitKey = `ratelimit:${identifier}`
-  const count = await c.env.RATE_LIMITER.get(rateLimitKey)
+  const rateLimit = await peekRateLimit(c, USER_RATE_LIMIT)
+  const multiplier = c.get('limitMultiplier')
+  const premiumQuotas = await getQuotaReport(c.env.RATE_LIMITER_DO, identifier, multiplier)
+  const tokenBudgets = await getBudgetReport(c.env.RATE_LIMITER_DO, identifier, multiplier)
 
   return c.json({
-    requestsRemaining: RATE_LIMIT - (count ? Number.parseInt(count, 10) : 0),
-    limit: RATE_LIMIT,
-    resetIn: RATE_LIMIT_WINDOW,
+    requestsRemaining: rateLimit.remaining,
+    limit: rateLimit.limit,
+    resetIn: rateLimit.reset,
     identifier,
     ip,
+    tokenBudgets,
+    premiumQuotas,
+  })
+})
+
+app.get('/api/conversations', async (c) => {
+  const userId = c.get('userId')
+
+  const limit = parsePageParam(c.req.query('limit'), DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE)
+  const offset = parsePageParam(c.req.query('offset'), 0, 0, Number.MAX_SAFE_INTEGER)
+  const conversations = await listConversations(c.env.DB, userId, limit, offset)
+
+  return c.json({ conversations, limit, offset })
+})
+
+app.get('/api/conversations/:id', async (c) => {
+  const userId = c.get('userId')
+
+  const conversation = await getConversation(c.env.DB, userId, c.req.param('id'))
+  if (!conversation) {
+    return c.json({ error: 'Not Found', message: 'Conversation not found' }, 404)
+  }
+
+  return c.json(conversation)
+})
+
+app.delete('/api/conversations/:id', async (c) => {
+  const userId = c.get('userId')
+
+  const deleted = await deleteConversation(c.env.DB, userId, c.req.param('id'))
+  if (!deleted) {
+    return c.json({ error: 'Not Found', message: 'Conversation not found' }, 404)
+  }
+
+  return c.body(null, 204)
+})
+
+// "Erase all my data": usage and cost rows are kept for the operator totals, without the user ID
+app.delete('/api/conversations', async (c) => {
+  const userId = c.get('userId')
+
+  const deleted = await deleteAllConversations(c.env.DB, userId)
+  await Promise.all([anonymizeUsage(c.env.DB, userId), anonymizeCosts(c.env.DB, userId)])
+
+  return c.json({ deleted })
+})
+
+// Store workouts from HealthKit; a workout synced again replaces the stored one (same UUID)
+app.post('/api/workouts/sync', async (c) => {
+  const userId = c.get('userId')
+
+  const validation = validateWorkoutSync(await c.req.json().catch(() => null))
+  if (!validation.ok) {
+    return c.json(
+      { error: 'Bad Request', message: 'Invalid workouts payload', errors: validation.errors },
+      400
+    )
+  }
+
+  await syncWorkouts(c.env.DB, userId, validation.workouts)
+
+  return c.json({ synced: validation.workouts.length })
+})
+
+app.get('/api/workouts', async (c) => {
+  const userId = c.get('userId')
+  const [from, to] = [c.req.query('from'), c.req.query('to')].map((value) =>
+    value === undefined ? undefined : Date.parse(value)
+  )
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return c.json({ error: 'Bad Request', message: 'from and to must be ISO 8601 dates' }, 400)
+  }
+  const limit = parsePageParam(c.req.query('limit'), DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE)
+  const offset = parsePageParam(c.req.query('offset'), 0, 0, Number.MAX_SAFE_INTEGER)
+
+  const workouts = await listWorkouts(c.env.DB, userId, {
+    from: from === undefined ? undefined : new Date(from).toISOString(),
+    to: to === undefined ? undefined : new Date(to).toISOString(),
+    limit,
+    offset,
   })
+
+  return c.json({ workouts, limit, offset })
+})
+
+app.delete('/api/workouts', async (c) => {
+  const userId = c.get('userId')
+
+  const deleted = await deleteAllWorkouts(c.env.DB, userId)
+
+  return c.json({ deleted })
+})
+
+// Operator usage report over a UTC day range, grouped by user, model or day
+app.get('/admin/usage', async (c) => {
+  const parsed = parseUsageQuery(c.req.query())
+  if (!parsed.ok) {
+    return c.json({ error: 'Bad Request', message: parsed.message }, 400)
+  }
+
+  const { from, to, groupBy } = parsed.query
+  return c.json({ from, to, groupBy, ...(await queryUsage(c.env.DB, parsed.query)) })
+})
+
+// One user's usage (grouped by model unless groupBy says otherwise) and current limits
+app.get('/admin/users/:id', async (c) => {
+  const userId = c.req.param('id')
+  if (!isValidUserId(userId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid user ID' }, 400)
+  }
+
+  const parsed = parseUsageQuery({ groupBy: 'model', ...c.req.query() })
+  if (!parsed.ok) {
+    return c.json({ error: 'Bad Request', message: parsed.message }, 400)
+  }
+
+  const override = await getLimitOverride(c.env.RATE_LIMITER, userId)
+  const multiplier = override?.multiplier
+  const [usage, rateLimits, tokenBudgets, premiumQuotas] = await Promise.all([
+    queryUsage(c.env.DB, { ...parsed.query, userId }),
+    Promise.all(
+      USER_RATE_LIMIT_RULES.map(async (rule) => ({
+        rule: rule.name,
+        windowSeconds: rule.windowSeconds,
+        ...(await inspectRateLimit(c.env.RATE_LIMITER_DO, rule, userId, multiplier)),
+      }))
+    ),
+    getBudgetReport(c.env.RATE_LIMITER_DO, userId, multiplier),
+    getQuotaReport(c.env.RATE_LIMITER_DO, userId, multiplier),
+  ])
+
+  const { from, to, groupBy } = parsed.query
+  return c.json({
+    userId,
+    from,
+    to,
+    groupBy,
+    usage,
+    limits: { override, rateLimits, tokenBudgets, premiumQuotas },
+  })
+})
+
+// Raise a user's limits for a while: body `{ multiplier, expiresAt?, reason? }`
+app.put('/admin/users/:id/limits', async (c) => {
+  const userId = c.req.param('id')
+  if (!isValidUserId(userId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid user ID' }, 400)
+  }
+
+  const validation = validateLimitOverride(await c.req.json().catch(() => null))
+  if (!validation.ok) {
+    return c.json({ error: 'Bad Request', message: validation.message }, 400)
+  }
+
+  const override: LimitOverride = {
+    multiplier: validation.multiplier,
+    expiresAt: validation.expiresAt.toISOString(),
+    reason: validation.reason,
+    updatedAt: new Date().toISOString(),
+  }
+  await setLimitOverride(c.env.RATE_LIMITER, userId, override)
+
+  return c.json({ userId, override })
+})
+
+// Back to the default limits
+app.delete('/admin/users/:id/limits', async (c) => {
+  const userId = c.req.param('id')
+  if (!isValidUserId(userId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid user ID' }, 400)
+  }
+
+  await clearLimitOverride(c.env.RATE_LIMITER, userId)
+  return c.body(null, 204)
+})
+
+// Forget a user's signing key, so an app that lost it can register again
+app.delete('/admin/users/:id/signing-key', async (c) => {
+  const userId = c.req.param('id')
+  if (!isValidUserId(userId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid user ID' }, 400)
+  }
+
+  if (!(await revokeInstallKey(c.env.DB, userId))) {
+    return c.json({ error: 'Not Found', message: 'No signing key registered for this user' }, 404)
+  }
+  return c.body(null, 204)
+})
+
+// Clear a user's rate limit and token budget counters and this month's premium quotas
+app.post('/admin/users/:id/limits/reset', async (c) => {
+  const userId = c.req.param('id')
+  if (!isValidUserId(userId)) {
+    return c.json({ error: 'Bad Request', message: 'Invalid user ID' }, 400)
+  }
+
+  await Promise.all([
+    resetRateLimits(c.env.RATE_LIMITER_DO, USER_RATE_LIMIT_RULES, userId),
+    resetTokenBudgets(c.env.RATE_LIMITER_DO, userId),
+    resetQuotas(c.env.RATE_LIMITER_DO, userId),
+  ])
+
+  return c.json({ userId, reset: ['rateLimits', 'tokenBudgets', 'premiumQuotas'] })
 })
 
 export default app
@@ -0,0 +1,136 @@
+/**
+ * Subset of JSON Schema used for structured AI output
+ * Supported keywords: type, enum, const, properties, required, additionalProperties,
+ * items, minItems, maxItems, minLength, maxLength, minimum, maximum, anyOf
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  anyOf?: JsonSchema[]
+  description?: string
+}
+
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+
+const MAX_ERRORS = 20
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonSchemaType
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string, errors: string[]) {
+  if (errors.length >= MAX_ERRORS) {
+    return
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`)
+  }
+
+  if (schema.const !== undefined && schema.const !== value) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((option) => validateJson(value, option).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      const items = schema.items
+      value.forEach((item, index) => {
+        validateNode(item, items, `${path}[${index}]`, errors)
+      })
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(object, key)) {
+        errors.push(`${path}.${key}: is required`)
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = Object.hasOwn(properties, key) ? properties[key] : undefined
+      if (propertySchema) {
+        validateNode(propertyValue, propertySchema, `${path}.${key}`, errors)
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`)
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, `${path}.${key}`, errors)
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * Returns readable error messages (empty when valid)
+ */
+export function validateJson(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = []
+  validateNode(value, schema, '$', errors)
+  return errors
+}
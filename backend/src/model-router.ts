@@ -0,0 +1,160 @@
+import type { ChatMessage } from './conversations'
+import { type ModelPolicy, resolveModel } from './models'
+import { renderPromptTemplate } from './prompt-templates'
+import {
+  type ChatProvider,
+  completeWithFailover,
+  type ProviderName,
+  type ProviderUsage,
+} from './providers'
+import { getCachedResponse, putCachedResponse, responseCacheKey } from './response-cache'
+
+/** Model id asking the server to pick the model from the question's complexity */
+export const AUTO_MODEL = 'auto'
+
+export type Complexity = 'simple' | 'moderate' | 'complex'
+
+export interface ClassifierCache {
+  kv: KVNamespace
+  waitUntil: (promise: Promise<unknown>) => void
+}
+
+export interface RoutingDecision {
+  complexity: Complexity
+  /** `cache` for a repeated question, `heuristic` when the classifier call failed or timed out */
+  source: 'classifier' | 'cache' | 'heuristic'
+  /** Target model id from `COMPLEXITY_MODELS` */
+  model: string
+  /** Classifier call to charge to the user's token budget (absent for cached classifications) */
+  classification?: {
+    policy: ModelPolicy
+    provider: ProviderName
+    messages: ChatMessage[]
+    output: string
+    usage?: ProviderUsage
+  }
+}
+
+/**
+ * Target model per complexity level
+ * Premium models keep their monthly quota, auto routing downgrades once it is exhausted
+ */
+export const COMPLEXITY_MODELS: Record<Complexity, string> = {
+  simple: 'x-ai/grok-4-fast',
+  moderate: 'anthropic/claude-haiku-4.5',
+  complex: 'anthropic/claude-sonnet-4.5',
+}
+
+const CLASSIFIER_MODEL = 'x-ai/grok-4-fast'
+const CLASSIFIER_MAX_TOKENS = 10
+const CLASSIFIER_TIMEOUT_MS = 4000
+const DEFAULT_MODE = 'recent-workouts'
+const ASSISTANT_MODES = ['single-workout', 'recent-workouts', 'recovery-coaching']
+
+// English and French keywords, the app is used in both
+const COMPLEX_KEYWORDS =
+  /\b(injur|pain|hurt|douleur|bless|mal (au|à|aux)|hrv|variabilit|overtrain|surentra|asymmetr|asymétr|ground contact|contact au sol|medical|médical|doctor|médecin|predict|prédi)/i
+const SIMPLE_KEYWORDS =
+  /\b(what was|how (far|long|fast|many)|quelle? (était|est)|combien|pace|allure|distance|calories|bpm)\b/i
+const SIMPLE_MAX_LENGTH = 80
+
+/**
+ * Read the classifier's one-word answer, MODERATE when unclear
+ */
+export function parseComplexity(text: string): Complexity {
+  const answer = text.trim().toUpperCase()
+  if (answer.includes('SIMPLE')) {
+    return 'simple'
+  }
+  if (answer.includes('COMPLEX')) {
+    return 'complex'
+  }
+  return 'moderate'
+}
+
+/**
+ * Local keyword fallback when the classifier is unavailable
+ */
+export function heuristicComplexity(question: string): Complexity {
+  if (COMPLEX_KEYWORDS.test(question)) {
+    return 'complex'
+  }
+  if (question.length <= SIMPLE_MAX_LENGTH && SIMPLE_KEYWORDS.test(question)) {
+    return 'simple'
+  }
+  return 'moderate'
+}
+
+/**
+ * Classify the question with the cheap classifier model and pick the target model
+ * `mode` is the assistant screen (single-workout, recent-workouts, recovery-coaching)
+ * Classifications are cached for the classifier template's TTL unless `cache` is omitted
+ */
+export async function routeAutoModel(
+  chain: ChatProvider[],
+  question: string,
+  mode: string | undefined,
+  cache?: ClassifierCache
+): Promise<RoutingDecision> {
+  const rendering = renderPromptTemplate('complexity-classifier', {
+    mode: mode && ASSISTANT_MODES.includes(mode) ? mode : DEFAULT_MODE,
+  })
+  const classifier = resolveModel(CLASSIFIER_MODEL)
+
+  if (rendering.ok && classifier.ok) {
+    const policy = { ...classifier.policy, maxTokens: CLASSIFIER_MAX_TOKENS, temperature: 0 }
+    const messages: ChatMessage[] = [
+      { role: 'system', content: rendering.template.systemPrompt },
+      { role: 'user', content: question },
+    ]
+
+    const cacheKey = cache && (await responseCacheKey(policy.id, messages))
+    const cached = cache && cacheKey ? await getCachedResponse(cache.kv, cacheKey) : null
+    if (cached) {
+      const complexity = parseComplexity(cached.output)
+      return { complexity, source: 'cache', model: COMPLEXITY_MODELS[complexity] }
+    }
+
+    try {
+      const completion = await completeWithFailover(chain, policy, messages, {
+        signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS),
+      })
+      const complexity = parseComplexity(completion.content)
+
+      const ttl = rendering.template.cacheTtlSeconds
+      if (cache && cacheKey && ttl) {
+        cache.waitUntil(
+          putCachedResponse(
+            cache.kv,
+            cacheKey,
+            {
+              output: complexity.toUpperCase(),
+              usage: {},
+              provider: completion.provider,
+              createdAt: new Date().toISOString(),
+            },
+            ttl
+          ).catch((error) => console.error('Classifier cache write error:', error))
+        )
+      }
+
+      return {
+        complexity,
+        source: 'classifier',
+        model: COMPLEXITY_MODELS[complexity],
+        classification: {
+          policy: classifier.policy,
+          provider: completion.provider,
+          messages,
+          output: completion.content,
+          usage: completion.usage,
+        },
+      }
+    } catch (error) {
+      console.warn('Complexity classifier failed, using heuristic:', error)
+    }
+  }
+
+  const complexity = heuristicComplexity(question)
+  return { complexity, source: 'heuristic', model: COMPLEXITY_MODELS[complexity] }
+}
@@ -0,0 +1,178 @@
+import type { ProviderName } from './providers/types'
+
+export type ModelTier = 'standard' | 'premium'
+
+/** USD per token */
+export interface TokenPricing {
+  inputPricePerToken: number
+  outputPricePerToken: number
+}
+
+/** `provider` when the upstream reported the billed amount, `pricing` when computed here */
+export type CostSource = 'provider' | 'pricing'
+
+export interface GenerationCost {
+  totalUsd: number
+  /** Split of a computed cost (absent for provider-reported costs) */
+  inputUsd?: number
+  outputUsd?: number
+  source: CostSource
+}
+
+export interface ModelPolicy extends TokenPricing {
+  id: string
+  displayName: string
+  tier: ModelTier
+  /** Model id for each provider able to serve it, tried in the configured chain order */
+  providerModels: Partial<Record<ProviderName, string>>
+  maxTokens: number
+  temperature: number
+  /** Prices when a provider serves another model than the one requested (Workers AI fallback) */
+  providerPricing?: Partial<Record<ProviderName, TokenPricing>>
+  enabled: boolean
+  /** Requests allowed per user per calendar month (premium models only) */
+  monthlyQuota?: number
+  /** Model served instead when the monthly quota is exhausted */
+  fallbackModel?: string
+}
+
+// Last-resort fallback on Cloudflare's own network for the standard tier
+const WORKERS_AI_FALLBACK = '@cf/meta/llama-3.3-70b-instruct-fp8-fast'
+const WORKERS_AI_FALLBACK_PRICING: TokenPricing = {
+  inputPricePerToken: 0.000000293,
+  outputPricePerToken: 0.000002253,
+}
+
+/**
+ * Models the iOS app is allowed to request (mirrors the `AIModel` enum)
+ * Prices are in USD per token, as listed on OpenRouter
+ */
+export const MODEL_REGISTRY: Record<string, ModelPolicy> = {
+  'anthropic/claude-haiku-4.5': {
+    id: 'anthropic/claude-haiku-4.5',
+    displayName: 'Claude Haiku 4.5',
+    tier: 'standard',
+    providerModels: {
+      openrouter: 'anthropic/claude-haiku-4.5',
+      anthropic: 'claude-haiku-4-5',
+      'workers-ai': WORKERS_AI_FALLBACK,
+    },
+    maxTokens: 2000,
+    temperature: 0.7,
+    inputPricePerToken: 0.000001,
+    outputPricePerToken: 0.000005,
+    providerPricing: { 'workers-ai': WORKERS_AI_FALLBACK_PRICING },
+    enabled: true,
+  },
+  'anthropic/claude-sonnet-4.5': {
+    id: 'anthropic/claude-sonnet-4.5',
+    displayName: 'Claude Sonnet 4.5',
+    tier: 'premium',
+    providerModels: {
+      openrouter: 'anthropic/claude-sonnet-4.5',
+      anthropic: 'claude-sonnet-4-5',
+    },
+    maxTokens: 2000,
+    temperature: 0.7,
+    inputPricePerToken: 0.000003,
+    outputPricePerToken: 0.000015,
+    enabled: true,
+    monthlyQuota: 10,
+    fallbackModel: 'anthropic/claude-haiku-4.5',
+  },
+  'openai/gpt-5': {
+    id: 'openai/gpt-5',
+    displayName: 'GPT-5',
+    tier: 'premium',
+    providerModels: {
+      openrouter: 'openai/gpt-5',
+      openai: 'gpt-5',
+    },
+    maxTokens: 4000, // Reasoning tokens count against the limit
+    temperature: 1, // GPT-5 only accepts the default temperature
+    inputPricePerToken: 0.00000125,
+    outputPricePerToken: 0.00001,
+    enabled: true,
+    monthlyQuota: 10,
+    fallbackModel: 'anthropic/claude-haiku-4.5',
+  },
+  'x-ai/grok-4-fast': {
+    id: 'x-ai/grok-4-fast',
+    displayName: 'Grok 4 Fast',
+    tier: 'standard',
+    providerModels: {
+      openrouter: 'x-ai/grok-4-fast',
+      'workers-ai': WORKERS_AI_FALLBACK,
+    },
+    maxTokens: 2000,
+    temperature: 0.7,
+    inputPricePerToken: 0.0000002,
+    outputPricePerToken: 0.0000005,
+    providerPricing: { 'workers-ai': WORKERS_AI_FALLBACK_PRICING },
+    enabled: true,
+  },
+}
+
+export type ModelLookupResult =
+  | { ok: true; policy: ModelPolicy }
+  | { ok: false; code: 'unknown_model' | 'model_disabled'; message: string }
+
+/**
+ * Resolve a requested model id against the registry
+ */
+export function resolveModel(modelId: string): ModelLookupResult {
+  const policy = Object.hasOwn(MODEL_REGISTRY, modelId) ? MODEL_REGISTRY[modelId] : undefined
+
+  if (!policy) {
+    return { ok: false, code: 'unknown_model', message: `Model "${modelId}" is not supported` }
+  }
+
+  if (!policy.enabled) {
+    return {
+      ok: false,
+      code: 'model_disabled',
+      message: `Model "${modelId}" is currently disabled`,
+    }
+  }
+
+  return { ok: true, policy }
+}
+
+/**
+ * List ids of all enabled models
+ */
+export function listEnabledModels(): string[] {
+  return Object.values(MODEL_REGISTRY)
+    .filter((policy) => policy.enabled)
+    .map((policy) => policy.id)
+}
+
+/**
+ * List premium models that carry a monthly quota
+ */
+export function listQuotaModels(): ModelPolicy[] {
+  return Object.values(MODEL_REGISTRY).filter(
+    (policy) => policy.enabled && policy.tier === 'premium' && policy.monthlyQuota !== undefined
+  )
+}
+
+/**
+ * Cost in USD of a generation: the amount reported by the provider when there is one,
+ * otherwise the tokens at the prices of the provider that served it
+ */
+export function generationCost(
+  policy: ModelPolicy,
+  provider: ProviderName | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  reportedCostUsd?: number
+): GenerationCost {
+  if (reportedCostUsd !== undefined && Number.isFinite(reportedCostUsd) && reportedCostUsd >= 0) {
+    return { totalUsd: reportedCostUsd, source: 'provider' }
+  }
+
+  const pricing = (provider && policy.providerPricing?.[provider]) || policy
+  const inputUsd = inputTokens * pricing.inputPricePerToken
+  const outputUsd = outputTokens * pricing.outputPricePerToken
+  return { totalUsd: inputUsd + outputUsd, inputUsd, outputUsd, source: 'pricing' }
+}
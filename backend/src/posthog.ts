@@ -1,4 +1,6 @@
 import { PostHog } from 'posthog-node'
+import type { GenerationCost } from './models'
+import { type RedactionConfig, redactIp, redactText } from './redaction'
 
 export interface PostHogConfig {
   apiKey: string
@@ -19,44 +21,80 @@ export function createPostHogClient(config: PostHogConfig): PostHog {
 
 /**
  * Capture LLM generation event with PostHog
+ * Prompts, output and IP go through `redaction` first; lengths and counts are computed before
  */
 export async function captureLLMEvent(
   posthog: PostHog,
   distinctId: string,
   traceId: string,
+  redaction: RedactionConfig,
   properties: {
     model: string
-    input: string
-    systemPrompt: string
+    provider?: string
+    messages: Array<{ role: string; content: string }>
     output?: string
     inputTokens?: number
     outputTokens?: number
     latency?: number
-    cost?: number
+    cost?: GenerationCost
+    /** Client disconnected mid-answer: output and token counts are partial */
+    cancelled?: boolean
     error?: string
+    /** upstream_timeout, upstream_error, rate_limited or content_filtered */
+    errorCode?: string
     ip?: string
+    promptTemplate?: { id: string; version: number }
+    routing?: { complexity: string; source: string }
+    cacheHit?: boolean
   }
 ): Promise<void> {
+  const lastUserMessage = [...properties.messages]
+    .reverse()
+    .find((message) => message.role === 'user')
+  const input = await Promise.all(
+    properties.messages.map(async (message) => ({
+      role: message.role,
+      content: await redactText(redaction, message.content),
+    }))
+  )
+  const ip = redactIp(redaction, properties.ip)
+
   await posthog.captureImmediate({
     distinctId,
     event: '$ai_generation',
     properties: {
       $ai_model: properties.model,
-      $ai_input: [
-        { role: 'system', content: properties.systemPrompt },
-        { role: 'user', content: properties.input },
-      ],
-      $ai_output: properties.output,
+      $ai_provider: properties.provider,
+      $ai_input: input,
+      $ai_output: await redactText(redaction, properties.output),
       $ai_input_tokens: properties.inputTokens,
       $ai_output_tokens: properties.outputTokens,
       $ai_latency: properties.latency,
-      $ai_total_cost_usd: properties.cost,
+      $ai_input_cost_usd: properties.cost?.inputUsd,
+      $ai_output_cost_usd: properties.cost?.outputUsd,
+      // Cache hits carry no cost
+      $ai_total_cost_usd: properties.cost?.totalUsd ?? 0,
+      cost_source: properties.cost?.source,
       $ai_trace_id: traceId,
       app: 'healthapp',
       environment: 'production',
-      prompt_length: properties.input.length,
+      prompt_length: lastUserMessage?.content.length ?? 0,
+      conversation_turns: properties.messages.filter((message) => message.role !== 'system').length,
       error: properties.error,
-      $ip: properties.ip,
+      error_code: properties.errorCode,
+      cancelled: properties.cancelled ?? false,
+      prompt_template: properties.promptTemplate?.id,
+      prompt_template_version: properties.promptTemplate?.version,
+      auto_routed: properties.routing !== undefined,
+      prompt_complexity: properties.routing?.complexity,
+      complexity_source: properties.routing?.source,
+      cache_hit: properties.cacheHit ?? false,
+      text_redaction: redaction.text,
+      numbers_masked: redaction.maskNumbers,
+      sample_rate: redaction.sampleRate,
+      $ip: ip,
+      // Without an IP, PostHog would geolocate the Worker instead of the user
+      $geoip_disable: ip === undefined,
     },
   })
 }
@@ -0,0 +1,134 @@
+import { readSSE, type StreamDelta, toOpenAIStream } from '../sse'
+import { schemaInstruction } from '../structured-output'
+import { assertOk, type ChatProvider, ProviderError, type ProviderRequest } from './types'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+// HTTP status matching an in-stream error type, for failover and client error codes
+const ANTHROPIC_STREAM_ERROR_STATUS: Record<string, number> = {
+  overloaded_error: 529,
+  rate_limit_error: 429,
+}
+
+interface AnthropicStreamEvent {
+  type: string
+  message?: { usage?: { input_tokens?: number } }
+  delta?: { type?: string; text?: string; stop_reason?: string }
+  usage?: { output_tokens?: number }
+  error?: { type?: string; message?: string }
+}
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>
+  usage?: { input_tokens?: number; output_tokens?: number }
+}
+
+/**
+ * Anthropic takes the system prompt as a top-level field, not as a message
+ * Structured output is requested through the system prompt
+ */
+function toAnthropicMessages(request: ProviderRequest) {
+  const { messages, responseFormat } = request
+  const system = [
+    messages.find((message) => message.role === 'system')?.content,
+    responseFormat && schemaInstruction(responseFormat),
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+  const turns = messages
+    .filter((message) => message.role !== 'system')
+    .map((message) => ({ role: message.role, content: message.content }))
+
+  return { ...(system ? { system } : {}), messages: turns }
+}
+
+/**
+ * Translate Anthropic's typed stream events into content deltas and a final usage delta
+ */
+async function* anthropicDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamDelta> {
+  let inputTokens: number | undefined
+  let outputTokens: number | undefined
+
+  for await (const { data } of readSSE(body)) {
+    const event: AnthropicStreamEvent = JSON.parse(data)
+
+    switch (event.type) {
+      case 'message_start':
+        inputTokens = event.message?.usage?.input_tokens
+        break
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          yield { content: event.delta.text }
+        }
+        break
+      case 'message_delta':
+        outputTokens = event.usage?.output_tokens ?? outputTokens
+        if (event.delta?.stop_reason === 'refusal') {
+          yield { finishReason: 'content_filter' }
+        }
+        break
+      case 'error':
+        throw new ProviderError(
+          'anthropic',
+          ANTHROPIC_STREAM_ERROR_STATUS[event.error?.type ?? ''] ?? 500,
+          event.error?.message ?? 'Anthropic stream error'
+        )
+    }
+  }
+
+  yield {
+    usage: {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: (inputTokens ?? 0) + (outputTokens ?? 0),
+    },
+  }
+}
+
+export function createAnthropicProvider(apiKey: string): ChatProvider {
+  const call = (request: ProviderRequest, stream: boolean) =>
+    fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        ...toAnthropicMessages(request),
+        max_tokens: request.policy.maxTokens,
+        temperature: request.policy.temperature,
+        stream,
+      }),
+      signal: request.signal,
+    })
+
+  return {
+    name: 'anthropic',
+
+    async stream(request) {
+      const response = await assertOk('anthropic', await call(request, true))
+      return toOpenAIStream(anthropicDeltas(response.body as ReadableStream<Uint8Array>))
+    },
+
+    async complete(request) {
+      const response = await assertOk('anthropic', await call(request, false))
+      const json: AnthropicMessageResponse = await response.json()
+      const inputTokens = json.usage?.input_tokens
+      const outputTokens = json.usage?.output_tokens
+
+      return {
+        content: (json.content ?? [])
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text ?? '')
+          .join(''),
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: (inputTokens ?? 0) + (outputTokens ?? 0),
+        },
+      }
+    },
+  }
+}
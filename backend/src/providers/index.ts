@@ -0,0 +1,162 @@
+import type { ModelPolicy } from '../models'
+import type { JsonSchemaFormat } from '../structured-output'
+import { createAnthropicProvider } from './anthropic'
+import { createOpenAIProvider } from './openai'
+import { createOpenRouterProvider } from './openrouter'
+import {
+  type ChatProvider,
+  type ProviderCompletion,
+  ProviderError,
+  type ProviderMessage,
+  type ProviderName,
+  type ProviderRequest,
+  type ToolDefinition,
+} from './types'
+import { createWorkersAIProvider } from './workers-ai'
+
+export type {
+  ChatProvider,
+  ProviderCompletion,
+  ProviderMessage,
+  ProviderName,
+  ProviderUsage,
+  ToolCall,
+  ToolDefinition,
+} from './types'
+export { ProviderError } from './types'
+
+export interface ProviderEnv {
+  OPENROUTER_API_KEY: string
+  ANTHROPIC_API_KEY?: string
+  OPENAI_API_KEY?: string
+  AI?: Ai
+  /** Comma-separated fallback order, e.g. "openrouter,anthropic,openai,workers-ai" */
+  PROVIDER_CHAIN?: string
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal
+  responseFormat?: JsonSchemaFormat
+  /** Only providers supporting tool calls are tried when set */
+  tools?: ToolDefinition[]
+  toolChoice?: 'auto' | 'none'
+}
+
+export interface ProviderAttempt {
+  provider: ProviderName
+  /** Model id in the provider's own naming */
+  providerModel: string
+}
+
+const DEFAULT_PROVIDER_CHAIN: ProviderName[] = ['openrouter', 'anthropic', 'openai', 'workers-ai']
+
+function createProvider(name: ProviderName, env: ProviderEnv): ChatProvider | undefined {
+  switch (name) {
+    case 'openrouter':
+      return env.OPENROUTER_API_KEY ? createOpenRouterProvider(env.OPENROUTER_API_KEY) : undefined
+    case 'anthropic':
+      return env.ANTHROPIC_API_KEY ? createAnthropicProvider(env.ANTHROPIC_API_KEY) : undefined
+    case 'openai':
+      return env.OPENAI_API_KEY ? createOpenAIProvider(env.OPENAI_API_KEY) : undefined
+    case 'workers-ai':
+      return env.AI ? createWorkersAIProvider(env.AI) : undefined
+  }
+}
+
+/**
+ * Configured providers in fallback order; providers without credentials are skipped
+ */
+export function createProviderChain(env: ProviderEnv): ChatProvider[] {
+  const names = env.PROVIDER_CHAIN
+    ? (env.PROVIDER_CHAIN.split(',').map((name) => name.trim()) as ProviderName[])
+    : DEFAULT_PROVIDER_CHAIN
+
+  return names
+    .filter((name) => DEFAULT_PROVIDER_CHAIN.includes(name))
+    .map((name) => createProvider(name, env))
+    .filter((provider): provider is ChatProvider => provider !== undefined)
+}
+
+/**
+ * Try each provider able to serve the model until one accepts the request
+ * 429/5xx and network errors move on to the next provider, other errors are final
+ */
+async function withFailover<T>(
+  chain: ChatProvider[],
+  policy: ModelPolicy,
+  messages: ProviderMessage[],
+  options: GenerationOptions,
+  call: (provider: ChatProvider, request: ProviderRequest) => Promise<T>
+): Promise<T & ProviderAttempt> {
+  const { signal, responseFormat, tools, toolChoice } = options
+  let lastError: ProviderError | undefined
+
+  for (const provider of chain) {
+    const providerModel = policy.providerModels[provider.name]
+    if (!providerModel || (tools && !provider.supportsTools)) {
+      continue
+    }
+
+    try {
+      const result = await call(provider, {
+        policy,
+        model: providerModel,
+        messages,
+        signal,
+        responseFormat,
+        tools,
+        toolChoice,
+      })
+      return { ...result, provider: provider.name, providerModel }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+
+      lastError =
+        error instanceof ProviderError
+          ? error
+          : new ProviderError(
+              provider.name,
+              502,
+              error instanceof Error ? error.message : 'Provider request failed'
+            )
+
+      if (!lastError.retryable) {
+        throw lastError
+      }
+
+      console.warn(`Provider ${provider.name} failed (${lastError.status}), trying next provider`)
+    }
+  }
+
+  throw lastError ?? new ProviderError('openrouter', 503, `No provider available for ${policy.id}`)
+}
+
+/**
+ * Start a streaming generation, failing over before any byte reaches the client
+ */
+export function streamWithFailover(
+  chain: ChatProvider[],
+  policy: ModelPolicy,
+  messages: ProviderMessage[],
+  options: GenerationOptions = {}
+): Promise<{ body: ReadableStream<Uint8Array> } & ProviderAttempt> {
+  return withFailover(chain, policy, messages, options, async (provider, request) => ({
+    body: await provider.stream(request),
+  }))
+}
+
+/**
+ * Run a non-streaming generation with the same fallback chain
+ */
+export function completeWithFailover(
+  chain: ChatProvider[],
+  policy: ModelPolicy,
+  messages: ProviderMessage[],
+  options: GenerationOptions = {}
+): Promise<ProviderCompletion & ProviderAttempt> {
+  return withFailover(chain, policy, messages, options, (provider, request) =>
+    provider.complete(request)
+  )
+}
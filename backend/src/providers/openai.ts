@@ -0,0 +1,43 @@
+import { openAIResponseFormat, openAITools, parseChatCompletion } from './openrouter'
+import { assertOk, type ChatProvider, type ProviderRequest } from './types'
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
+
+export function createOpenAIProvider(apiKey: string): ChatProvider {
+  const call = (request: ProviderRequest, stream: boolean) =>
+    fetch(OPENAI_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        // Reasoning models reject max_tokens
+        max_completion_tokens: request.policy.maxTokens,
+        temperature: request.policy.temperature,
+        stream,
+        // Without this the stream carries no usage block
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...openAIResponseFormat(request.responseFormat),
+        ...openAITools(request),
+      }),
+      signal: request.signal,
+    })
+
+  return {
+    name: 'openai',
+    supportsTools: true,
+
+    async stream(request) {
+      const response = await assertOk('openai', await call(request, true))
+      return response.body as ReadableStream<Uint8Array>
+    },
+
+    async complete(request) {
+      const response = await assertOk('openai', await call(request, false))
+      return parseChatCompletion(await response.json())
+    },
+  }
+}
@@ -0,0 +1,95 @@
+import type { JsonSchemaFormat } from '../structured-output'
+import { assertOk, type ChatProvider, type ProviderCompletion, type ProviderRequest } from './types'
+
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions'
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null
+    }
+  }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+    cost?: number
+  }
+}
+
+/**
+ * `response_format` body field shared by OpenAI-compatible APIs
+ */
+export function openAIResponseFormat(format: JsonSchemaFormat | undefined) {
+  return format
+    ? {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: format.name, schema: format.schema },
+        },
+      }
+    : {}
+}
+
+/**
+ * `tools` and `tool_choice` body fields shared by OpenAI-compatible APIs
+ */
+export function openAITools(request: ProviderRequest) {
+  return request.tools ? { tools: request.tools, tool_choice: request.toolChoice ?? 'auto' } : {}
+}
+
+/**
+ * Read a non-streaming OpenAI-compatible chat completion body
+ */
+export function parseChatCompletion(json: ChatCompletionResponse): ProviderCompletion {
+  return {
+    content: json.choices?.[0]?.message?.content ?? '',
+    usage: json.usage && {
+      inputTokens: json.usage.prompt_tokens,
+      outputTokens: json.usage.completion_tokens,
+      totalTokens: json.usage.total_tokens,
+      costUsd: json.usage.cost,
+    },
+  }
+}
+
+export function createOpenRouterProvider(apiKey: string): ChatProvider {
+  const call = (request: ProviderRequest, stream: boolean) =>
+    fetch(OPENROUTER_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'HTTP-Referer': 'https://insightrun.ai',
+        'X-Title': 'insightRun.ai',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.policy.maxTokens,
+        temperature: request.policy.temperature,
+        stream,
+        // Adds the billed `cost` to the usage block
+        usage: { include: true },
+        ...openAIResponseFormat(request.responseFormat),
+        ...openAITools(request),
+      }),
+      signal: request.signal,
+    })
+
+  return {
+    name: 'openrouter',
+    supportsTools: true,
+
+    async stream(request) {
+      const response = await assertOk('openrouter', await call(request, true))
+      // OpenRouter already streams OpenAI-compatible SSE
+      return response.body as ReadableStream<Uint8Array>
+    },
+
+    async complete(request) {
+      const response = await assertOk('openrouter', await call(request, false))
+      return parseChatCompletion(await response.json())
+    },
+  }
+}
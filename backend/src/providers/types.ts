@@ -0,0 +1,115 @@
+import type { ChatMessage } from '../conversations'
+import type { JsonSchema } from '../json-schema'
+import type { ModelPolicy } from '../models'
+import type { JsonSchemaFormat } from '../structured-output'
+
+export type ProviderName = 'openrouter' | 'anthropic' | 'openai' | 'workers-ai'
+
+/** Function the model may call, in the OpenAI `tools` format */
+export interface ToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: JsonSchema
+  }
+}
+
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    /** JSON-encoded arguments, as written by the model */
+    arguments: string
+  }
+}
+
+/**
+ * Chat turn sent upstream: the stored roles, plus the tool calling turns of a tool loop
+ */
+export type ProviderMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string; tool_calls: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string }
+
+export interface ProviderRequest {
+  policy: ModelPolicy
+  /** Model id in the provider's own naming */
+  model: string
+  messages: ProviderMessage[]
+  signal?: AbortSignal
+  /** Ask for JSON matching a schema (natively where supported, by instruction otherwise) */
+  responseFormat?: JsonSchemaFormat
+  tools?: ToolDefinition[]
+  /** `none` forces a text answer while keeping the tools declared */
+  toolChoice?: 'auto' | 'none'
+}
+
+export interface ProviderUsage {
+  inputTokens?: number
+  outputTokens?: number
+  totalTokens?: number
+  /** Billed amount in USD, when the provider reports it (OpenRouter) */
+  costUsd?: number
+}
+
+export interface ProviderCompletion {
+  content: string
+  usage?: ProviderUsage
+}
+
+/**
+ * A chat completion backend
+ * `stream` resolves once the provider accepted the request, with a body normalized to
+ * OpenAI-compatible SSE (`choices[0].delta.content`, final `usage`, then `[DONE]`)
+ */
+export interface ChatProvider {
+  name: ProviderName
+  /** Accepts `tools` and streams `tool_calls` deltas */
+  supportsTools?: boolean
+  stream(request: ProviderRequest): Promise<ReadableStream<Uint8Array>>
+  complete(request: ProviderRequest): Promise<ProviderCompletion>
+}
+
+/**
+ * Upstream failure; 429 and 5xx are retried on the next provider of the chain
+ */
+export class ProviderError extends Error {
+  readonly provider: ProviderName
+  readonly status: number
+  readonly details?: string
+
+  constructor(provider: ProviderName, status: number, message: string, details?: string) {
+    super(message)
+    this.name = 'ProviderError'
+    this.provider = provider
+    this.status = status
+    this.details = details
+  }
+
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500
+  }
+}
+
+/**
+ * Throw a ProviderError for a non-OK upstream response
+ */
+export async function assertOk(provider: ProviderName, response: Response): Promise<Response> {
+  if (!response.ok) {
+    const details = await response.text()
+    throw new ProviderError(
+      provider,
+      response.status,
+      `${provider} returned HTTP ${response.status}`,
+      details
+    )
+  }
+
+  if (!response.body) {
+    throw new ProviderError(provider, 502, `${provider} returned an empty body`)
+  }
+
+  return response
+}
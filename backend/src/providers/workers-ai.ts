@@ -0,0 +1,79 @@
+import { readSSE, type StreamDelta, toOpenAIStream } from '../sse'
+import { type ChatProvider, ProviderError, type ProviderRequest } from './types'
+
+interface WorkersAIChunk {
+  response?: string
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+  }
+}
+
+async function* workersAIDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamDelta> {
+  for await (const { data } of readSSE(body)) {
+    if (data === '[DONE]') {
+      return
+    }
+
+    const chunk: WorkersAIChunk = JSON.parse(data)
+    if (chunk.response) {
+      yield { content: chunk.response }
+    }
+    if (chunk.usage) {
+      yield { usage: chunk.usage }
+    }
+  }
+}
+
+export function createWorkersAIProvider(ai: Ai): ChatProvider {
+  const run = async (request: ProviderRequest, stream: boolean): Promise<unknown> => {
+    try {
+      return await ai.run(
+        request.model as keyof AiModels,
+        {
+          messages: request.messages,
+          max_tokens: request.policy.maxTokens,
+          temperature: request.policy.temperature,
+          stream,
+          ...(request.responseFormat && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: request.responseFormat.schema,
+            },
+          }),
+        },
+        { signal: request.signal }
+      )
+    } catch (error) {
+      // The binding throws instead of returning a status: treat it as retryable
+      throw new ProviderError(
+        'workers-ai',
+        503,
+        error instanceof Error ? error.message : 'Workers AI error'
+      )
+    }
+  }
+
+  return {
+    name: 'workers-ai',
+
+    async stream(request) {
+      const body = (await run(request, true)) as ReadableStream<Uint8Array>
+      return toOpenAIStream(workersAIDeltas(body))
+    },
+
+    async complete(request) {
+      const output = (await run(request, false)) as WorkersAIChunk
+
+      return {
+        content: output.response ?? '',
+        usage: output.usage && {
+          inputTokens: output.usage.prompt_tokens,
+          outputTokens: output.usage.completion_tokens,
+          totalTokens: output.usage.total_tokens,
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,110 @@
+import { listQuotaModels, type ModelPolicy } from './models'
+import { getRateLimiter, type RateLimiterDurableObject } from './rate-limiter'
+
+export interface QuotaStatus {
+  model: string
+  used: number
+  limit: number
+  remaining: number
+  resetsAt: string
+}
+
+type QuotaNamespace = DurableObjectNamespace<RateLimiterDurableObject>
+
+function quotaPeriod(now: Date): string {
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0')
+  return `${now.getUTCFullYear()}-${month}`
+}
+
+function nextResetDate(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+// One counter per user and model, the Durable Object serializes concurrent requests
+function quotaCounter(namespace: QuotaNamespace, userId: string, modelId: string) {
+  return getRateLimiter(namespace, `quota:${userId}:${modelId}`)
+}
+
+function quotaStatus(policy: ModelPolicy, limit: number, used: number, now: Date): QuotaStatus {
+  return {
+    model: policy.id,
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    resetsAt: nextResetDate(now).toISOString(),
+  }
+}
+
+function quotaLimit(policy: ModelPolicy, multiplier: number): number {
+  return Math.floor((policy.monthlyQuota ?? 0) * multiplier)
+}
+
+/**
+ * Read the current month's usage of a premium model for a user
+ * Months are calendar months in UTC, the quota scales with the admin-granted limit multiplier
+ */
+export async function getQuotaStatus(
+  namespace: QuotaNamespace,
+  userId: string,
+  policy: ModelPolicy,
+  multiplier = 1,
+  now: Date = new Date()
+): Promise<QuotaStatus> {
+  const used = await quotaCounter(namespace, userId, policy.id).countInPeriod(quotaPeriod(now))
+  return quotaStatus(policy, quotaLimit(policy, multiplier), used, now)
+}
+
+/**
+ * Record one premium request against the user's monthly quota
+ * Null when concurrent requests used up the quota since `status` was read
+ */
+export async function consumeQuota(
+  namespace: QuotaNamespace,
+  userId: string,
+  policy: ModelPolicy,
+  status: QuotaStatus,
+  now: Date = new Date()
+): Promise<QuotaStatus | null> {
+  const result = await quotaCounter(namespace, userId, policy.id).consumeInPeriod(
+    quotaPeriod(now),
+    status.limit,
+    nextResetDate(now).getTime()
+  )
+
+  return result.allowed ? quotaStatus(policy, status.limit, result.used, now) : null
+}
+
+/**
+ * Give back a premium request taken by `consumeQuota` whose generation could not start
+ */
+export async function releaseQuota(
+  namespace: QuotaNamespace,
+  userId: string,
+  policy: ModelPolicy,
+  now: Date = new Date()
+): Promise<void> {
+  await quotaCounter(namespace, userId, policy.id).releaseInPeriod(quotaPeriod(now))
+}
+
+/**
+ * Quota status of every premium model for a user (used by /api/stats and the admin API)
+ */
+export async function getQuotaReport(
+  namespace: QuotaNamespace,
+  userId: string,
+  multiplier = 1,
+  now: Date = new Date()
+): Promise<QuotaStatus[]> {
+  return Promise.all(
+    listQuotaModels().map((policy) => getQuotaStatus(namespace, userId, policy, multiplier, now))
+  )
+}
+
+/**
+ * Give a user their full monthly quota back on every premium model
+ */
+export async function resetQuotas(namespace: QuotaNamespace, userId: string) {
+  await Promise.all(
+    listQuotaModels().map((policy) => quotaCounter(namespace, userId, policy.id).reset())
+  )
+}
@@ -0,0 +1,350 @@
+import { DurableObject } from 'cloudflare:workers'
+import type { Context } from 'hono'
+import { createMiddleware } from 'hono/factory'
+
+export type RateLimitScope = 'user' | 'ip'
+
+export interface RateLimitRule {
+  name: string
+  scope: RateLimitScope
+  limit: number
+  windowSeconds: number
+  /** Restrict the rule to these request paths (all paths when omitted) */
+  paths?: string[]
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the current window ends */
+  reset: number
+  /** Seconds to wait before retrying (0 when allowed) */
+  retryAfter: number
+}
+
+export interface PeriodCountResult {
+  allowed: boolean
+  /** Units counted in the period, this one included when allowed */
+  used: number
+}
+
+type EvaluateMode = 'consume' | 'charge' | 'peek'
+
+interface PeriodState {
+  period: string
+  used: number
+}
+
+interface WindowState {
+  windowStart: number
+  current: number
+  previous: number
+}
+
+type RateLimiterEnv = {
+  Bindings: {
+    RATE_LIMITER_DO: DurableObjectNamespace<RateLimiterDurableObject>
+  }
+  Variables: {
+    /** Verified user ID, when a session middleware ran first */
+    userId?: string
+    /** Admin-granted factor applied to user-scoped limits (1 when absent) */
+    limitMultiplier?: number
+  }
+}
+
+/**
+ * Sliding-window counter for a single rate-limit key
+ * One instance per key: requests to the same key are serialized by the runtime,
+ * so the read-modify-write below cannot race
+ */
+export class RateLimiterDurableObject extends DurableObject {
+  /** Count `cost` units if they fit within the limit */
+  async consume(limit: number, windowSeconds: number, cost = 1): Promise<RateLimitResult> {
+    return this.evaluate(limit, windowSeconds, cost, 'consume')
+  }
+
+  /** Count `cost` units unconditionally (usage only known after the fact) */
+  async charge(limit: number, windowSeconds: number, cost: number): Promise<RateLimitResult> {
+    return this.evaluate(limit, windowSeconds, cost, 'charge')
+  }
+
+  /** Check whether `cost` units would fit, without counting them */
+  async peek(limit: number, windowSeconds: number, cost = 0): Promise<RateLimitResult> {
+    return this.evaluate(limit, windowSeconds, cost, 'peek')
+  }
+
+  /** Give back `cost` units counted in the current window */
+  async refund(windowSeconds: number, cost = 1): Promise<void> {
+    const windowStart = Math.floor(Date.now() / (windowSeconds * 1000)) * windowSeconds * 1000
+    const stored = await this.ctx.storage.get<WindowState>('window')
+    if (stored?.windowStart !== windowStart) {
+      return
+    }
+
+    stored.current = Math.max(0, stored.current - cost)
+    await this.ctx.storage.put('window', stored)
+  }
+
+  /**
+   * Count one unit in a named calendar period (e.g. a month) if `limit` is not reached yet
+   * The count restarts when `period` changes; the state is dropped at `expiresAt`
+   */
+  async consumeInPeriod(
+    period: string,
+    limit: number,
+    expiresAt: number
+  ): Promise<PeriodCountResult> {
+    const used = await this.countInPeriod(period)
+    if (used >= limit) {
+      return { allowed: false, used }
+    }
+
+    await this.ctx.storage.put<PeriodState>('period', { period, used: used + 1 })
+    await this.ctx.storage.setAlarm(expiresAt)
+    return { allowed: true, used: used + 1 }
+  }
+
+  /** Give back one unit counted in `period` (e.g. the request it was taken for failed) */
+  async releaseInPeriod(period: string): Promise<void> {
+    const used = await this.countInPeriod(period)
+    if (used > 0) {
+      await this.ctx.storage.put<PeriodState>('period', { period, used: used - 1 })
+    }
+  }
+
+  /** Units counted in `period` so far */
+  async countInPeriod(period: string): Promise<number> {
+    const stored = await this.ctx.storage.get<PeriodState>('period')
+    return stored?.period === period ? stored.used : 0
+  }
+
+  /** Forget everything counted for this key */
+  async reset(): Promise<void> {
+    await this.ctx.storage.deleteAll()
+  }
+
+  async alarm(): Promise<void> {
+    // Nothing was counted for two full windows (or the period is over), drop the state
+    await this.ctx.storage.deleteAll()
+  }
+
+  private async evaluate(
+    limit: number,
+    windowSeconds: number,
+    cost: number,
+    mode: EvaluateMode
+  ): Promise<RateLimitResult> {
+    const now = Date.now()
+    const windowMs = windowSeconds * 1000
+    const windowStart = Math.floor(now / windowMs) * windowMs
+    const stored = await this.ctx.storage.get<WindowState>('window')
+
+    let state: WindowState = { windowStart, current: 0, previous: 0 }
+    if (stored?.windowStart === windowStart) {
+      state = stored
+    } else if (stored?.windowStart === windowStart - windowMs) {
+      state = { windowStart, current: 0, previous: stored.current }
+    }
+
+    // Weight the previous window by how much of it still overlaps the sliding window
+    const elapsed = now - windowStart
+    const previousWeight = (windowMs - elapsed) / windowMs
+    const estimated = state.previous * previousWeight + state.current
+    const reset = Math.ceil((windowMs - elapsed) / 1000)
+
+    if (mode !== 'charge' && estimated + cost > limit) {
+      return {
+        allowed: false,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimated)),
+        reset,
+        retryAfter: retryAfterSeconds(state, limit, cost, windowMs, elapsed),
+      }
+    }
+
+    if (mode !== 'peek') {
+      state.current += cost
+      await this.ctx.storage.put('window', state)
+      await this.ctx.storage.setAlarm(windowStart + 2 * windowMs)
+    }
+
+    return {
+      allowed: estimated + cost <= limit,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimated - cost)),
+      reset,
+      retryAfter: 0,
+    }
+  }
+}
+
+function retryAfterSeconds(
+  state: WindowState,
+  limit: number,
+  cost: number,
+  windowMs: number,
+  elapsed: number
+): number {
+  const headroom = limit - state.current - cost
+  if (headroom < 0 || state.previous === 0) {
+    // The current window alone is full: wait for it to roll over
+    return Math.ceil((windowMs - elapsed) / 1000)
+  }
+
+  // Wait until the previous window's weight has decayed enough
+  const waitMs = windowMs - (headroom * windowMs) / state.previous - elapsed
+  return Math.max(1, Math.ceil(waitMs / 1000))
+}
+
+function scopeIdentifier(c: Context, scope: RateLimitScope): string {
+  const ip = c.req.header('CF-Connecting-IP') || 'unknown'
+  if (scope === 'ip') {
+    return ip
+  }
+
+  // Session user first, then the X-User-ID header (session creation), then the IP
+  const userId: string | undefined = c.get('userId')
+  return userId || c.req.header('X-User-ID') || ip
+}
+
+/**
+ * Durable Object instance holding the counter for a key
+ */
+export function getRateLimiter(
+  namespace: DurableObjectNamespace<RateLimiterDurableObject>,
+  key: string
+) {
+  return namespace.get(namespace.idFromName(key))
+}
+
+function limiterStub(
+  namespace: DurableObjectNamespace<RateLimiterDurableObject>,
+  rule: RateLimitRule,
+  identifier: string
+) {
+  return getRateLimiter(namespace, `ratelimit:${rule.name}:${identifier}`)
+}
+
+/**
+ * Limit of a rule for one identifier: user-scoped rules scale with the admin multiplier
+ */
+function effectiveLimit(rule: RateLimitRule, multiplier = 1): number {
+  return rule.scope === 'user' ? Math.floor(rule.limit * multiplier) : rule.limit
+}
+
+function setRateLimitHeaders(c: Context, rule: RateLimitRule, result: RateLimitResult) {
+  c.header('RateLimit-Limit', result.limit.toString())
+  c.header('RateLimit-Remaining', result.remaining.toString())
+  c.header('RateLimit-Reset', result.reset.toString())
+  c.header('RateLimit-Policy', `${result.limit};w=${rule.windowSeconds}`)
+}
+
+/**
+ * Hono middleware applying every matching rule atomically through the Durable Object
+ * Headers report the most constrained rule
+ */
+export function rateLimiter(rules: RateLimitRule[]) {
+  return createMiddleware<RateLimiterEnv>(async (c, next) => {
+    const matching = rules.filter((rule) => !rule.paths || rule.paths.includes(c.req.path))
+    if (matching.length === 0) {
+      return next()
+    }
+
+    const multiplier = c.get('limitMultiplier')
+    const results = await Promise.all(
+      matching.map((rule) =>
+        limiterStub(c.env.RATE_LIMITER_DO, rule, scopeIdentifier(c, rule.scope)).consume(
+          effectiveLimit(rule, multiplier),
+          rule.windowSeconds
+        )
+      )
+    )
+
+    let tightest = 0
+    results.forEach((result, index) => {
+      const current = results[tightest]
+      if (
+        (!result.allowed && current.allowed) ||
+        (result.allowed === current.allowed && result.remaining < current.remaining)
+      ) {
+        tightest = index
+      }
+    })
+
+    const rule = matching[tightest]
+    const result = results[tightest]
+    setRateLimitHeaders(c, rule, result)
+
+    if (!result.allowed) {
+      c.header('Retry-After', result.retryAfter.toString())
+      return c.json(
+        {
+          error: 'Rate limit exceeded',
+          message: 'Too many requests. Please try again later.',
+          rule: rule.name,
+          limit: result.limit,
+          retryAfter: result.retryAfter,
+        },
+        429
+      )
+    }
+
+    await next()
+
+    // Cached answers cost nothing upstream, give the request back
+    if (c.res.headers.get('X-Cache') === 'HIT') {
+      c.executionCtx.waitUntil(
+        Promise.all(
+          matching.map((rule) =>
+            limiterStub(c.env.RATE_LIMITER_DO, rule, scopeIdentifier(c, rule.scope)).refund(
+              rule.windowSeconds
+            )
+          )
+        ).catch((error) => console.error('Rate limit refund error:', error))
+      )
+    }
+  })
+}
+
+/**
+ * Read a rule's current state for the caller without counting a request
+ */
+export async function peekRateLimit<E extends RateLimiterEnv>(
+  c: Context<E>,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  return inspectRateLimit(
+    c.env.RATE_LIMITER_DO,
+    rule,
+    scopeIdentifier(c, rule.scope),
+    c.get('limitMultiplier')
+  )
+}
+
+/**
+ * Read a rule's current state for any identifier (admin reports)
+ */
+export async function inspectRateLimit(
+  namespace: DurableObjectNamespace<RateLimiterDurableObject>,
+  rule: RateLimitRule,
+  identifier: string,
+  multiplier?: number
+): Promise<RateLimitResult> {
+  return limiterStub(namespace, rule, identifier).peek(
+    effectiveLimit(rule, multiplier),
+    rule.windowSeconds
+  )
+}
+
+/**
+ * Clear the counters of the given rules for an identifier
+ */
+export async function resetRateLimits(
+  namespace: DurableObjectNamespace<RateLimiterDurableObject>,
+  rules: RateLimitRule[],
+  identifier: string
+): Promise<void> {
+  await Promise.all(rules.map((rule) => limiterStub(namespace, rule, identifier).reset()))
+}
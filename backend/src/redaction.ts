@@ -0,0 +1,110 @@
+/**
+ * What happens to prompts and answers before they reach PostHog
+ * `truncate` keeps the first `TRUNCATE_LENGTH` characters, `hash` a SHA-256 prefix
+ */
+export type TextRedaction = 'full' | 'truncate' | 'hash' | 'drop'
+
+/** `anonymize` zeroes the last IPv4 byte or keeps the IPv6 /48 prefix */
+export type IpRedaction = 'keep' | 'anonymize' | 'drop'
+
+export interface RedactionConfig {
+  /** Replace every number in free text (heart rate, HRV, weight, sleep, ...) with `#` */
+  maskNumbers: boolean
+  text: TextRedaction
+  ip: IpRedaction
+  /** Share of generations captured, between 0 and 1 */
+  sampleRate: number
+}
+
+export interface RedactionVars {
+  POSTHOG_MASK_NUMBERS?: string
+  POSTHOG_TEXT_MODE?: string
+  POSTHOG_IP_MODE?: string
+  POSTHOG_SAMPLE_RATE?: string
+}
+
+/** Request header asking the Worker not to send this generation to PostHog */
+export const ANALYTICS_OPT_OUT_HEADER = 'X-Analytics-Opt-Out'
+
+export const TRUNCATE_LENGTH = 200
+
+const TEXT_REDACTIONS: TextRedaction[] = ['full', 'truncate', 'hash', 'drop']
+const IP_REDACTIONS: IpRedaction[] = ['keep', 'anonymize', 'drop']
+const HASH_LENGTH = 16
+// Integers and decimals with either separator, so "52,5 kg" and "1:42:10" are fully masked
+const NUMBER_PATTERN = /\d+(?:[.,:]\d+)*/g
+
+/**
+ * Read the redaction settings from the environment, defaulting to the most private values
+ * except sampling (everything captured)
+ */
+export function parseRedactionConfig(vars: RedactionVars): RedactionConfig {
+  const text = vars.POSTHOG_TEXT_MODE as TextRedaction
+  const ip = vars.POSTHOG_IP_MODE as IpRedaction
+  const sampleRate = Number(vars.POSTHOG_SAMPLE_RATE ?? 1)
+
+  return {
+    maskNumbers: vars.POSTHOG_MASK_NUMBERS !== 'false',
+    text: TEXT_REDACTIONS.includes(text) ? text : 'truncate',
+    ip: IP_REDACTIONS.includes(ip) ? ip : 'drop',
+    sampleRate: Number.isFinite(sampleRate) ? Math.min(Math.max(sampleRate, 0), 1) : 1,
+  }
+}
+
+/**
+ * Whether the user opted out with `X-Analytics-Opt-Out`
+ */
+export function isAnalyticsOptOut(header: string | undefined): boolean {
+  return header !== undefined && ['1', 'true', 'yes'].includes(header.trim().toLowerCase())
+}
+
+export function isSampledOut(config: RedactionConfig, random = Math.random()): boolean {
+  return random >= config.sampleRate
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  const hex = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `sha256:${hex.slice(0, HASH_LENGTH)}`
+}
+
+/**
+ * Apply the config to a prompt or an answer: numbers are masked before hashing or truncating
+ * Returns undefined when free text is dropped
+ */
+export async function redactText(
+  config: RedactionConfig,
+  text: string | undefined
+): Promise<string | undefined> {
+  if (text === undefined || config.text === 'drop') {
+    return undefined
+  }
+
+  const masked = config.maskNumbers ? text.replace(NUMBER_PATTERN, '#') : text
+  switch (config.text) {
+    case 'hash':
+      return hashText(masked)
+    case 'truncate':
+      return masked.length > TRUNCATE_LENGTH ? `${masked.slice(0, TRUNCATE_LENGTH)}…` : masked
+    default:
+      return masked
+  }
+}
+
+export function redactIp(config: RedactionConfig, ip: string | undefined): string | undefined {
+  if (!ip || config.ip === 'drop') {
+    return undefined
+  }
+  if (config.ip === 'keep') {
+    return ip
+  }
+
+  if (ip.includes(':')) {
+    // Groups before a "::" are the leading ones, zero-pad them to a /48
+    const groups = ip.split('::')[0].split(':').filter(Boolean)
+    return `${[...groups, '0', '0', '0'].slice(0, 3).join(':')}::`
+  }
+
+  const octets = ip.split('.')
+  return octets.length === 4 ? `${octets.slice(0, 3).join('.')}.0` : undefined
+}
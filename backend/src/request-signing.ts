@@ -0,0 +1,266 @@
+import { createMiddleware } from 'hono/factory'
+import { constantTimeEqual } from './session'
+
+export interface RequestSigningOptions {
+  /**
+   * Routes rejecting unsigned requests, elsewhere a signature is only checked when sent
+   * Hono-style patterns: `:param` matches one path segment (`/api/conversations/:id`)
+   */
+  enforcedPaths?: string[]
+  /** Paths without a session (and so without a registered install key) */
+  publicPaths?: string[]
+}
+
+export type SignatureVerification =
+  | { ok: true }
+  | {
+      ok: false
+      code: 'invalid_signature' | 'stale_signature' | 'replayed_nonce'
+      message: string
+    }
+
+type RequestSigningEnv = {
+  Bindings: {
+    RATE_LIMITER: KVNamespace
+    DB: D1Database
+  }
+  Variables: {
+    userId: string
+    signedRequest?: boolean
+  }
+}
+
+export const SIGNATURE_HEADER = 'X-Signature'
+export const TIMESTAMP_HEADER = 'X-Signature-Timestamp'
+export const NONCE_HEADER = 'X-Signature-Nonce'
+
+/** Accepted clock skew between the app and the Worker */
+export const MAX_SKEW_SECONDS = 300
+
+/** Nonces outlive the skew window on both sides, so a replay is always caught */
+const NONCE_TTL_SECONDS = 2 * MAX_SKEW_SECONDS
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/
+const KEY_BYTES = 32
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function nonceKey(userId: string, nonce: string): string {
+  return `signing:nonce:${userId}:${nonce}`
+}
+
+function generateInstallKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+async function getInstallKey(db: D1Database, userId: string): Promise<string | null> {
+  return db.prepare('SELECT key FROM install_keys WHERE user_id = ?1').bind(userId).first('key')
+}
+
+/**
+ * Issue the install's signing key, once per user
+ * Returns null when the user is already registered: the key is never sent twice, and of two
+ * concurrent registrations only one inserts its key
+ */
+export async function registerInstallKey(db: D1Database, userId: string): Promise<string | null> {
+  const key = generateInstallKey()
+  const inserted = await db
+    .prepare(
+      `INSERT INTO install_keys (user_id, key, created_at) VALUES (?1, ?2, ?3)
+       ON CONFLICT (user_id) DO NOTHING`
+    )
+    .bind(userId, key, new Date().toISOString())
+    .run()
+
+  return inserted.meta.changes > 0 ? key : null
+}
+
+/**
+ * Replace the user's signing key with a new one
+ * Returns null without a key, or when a concurrent rotation replaced the key first
+ */
+export async function rotateInstallKey(db: D1Database, userId: string): Promise<string | null> {
+  const current = await getInstallKey(db, userId)
+  if (!current) {
+    return null
+  }
+
+  const key = generateInstallKey()
+  const updated = await db
+    .prepare('UPDATE install_keys SET key = ?3, rotated_at = ?4 WHERE user_id = ?1 AND key = ?2')
+    .bind(userId, current, key, new Date().toISOString())
+    .run()
+
+  return updated.meta.changes > 0 ? key : null
+}
+
+/**
+ * Forget the user's signing key, so the app can register again (key lost on a reinstall)
+ * Returns false when no key was registered
+ */
+export async function revokeInstallKey(db: D1Database, userId: string): Promise<boolean> {
+  const deleted = await db.prepare('DELETE FROM install_keys WHERE user_id = ?1').bind(userId).run()
+
+  return deleted.meta.changes > 0
+}
+
+/**
+ * String the app signs: method, path with query, timestamp, nonce and the body's SHA-256,
+ * one per line
+ */
+export async function canonicalRequest(
+  method: string,
+  pathWithQuery: string,
+  timestamp: string,
+  nonce: string,
+  body: ArrayBuffer
+): Promise<string> {
+  const bodyHash = toHex(await crypto.subtle.digest('SHA-256', body))
+  return [method.toUpperCase(), pathWithQuery, timestamp, nonce, bodyHash].join('\n')
+}
+
+/**
+ * Hex HMAC-SHA256 of the canonical request with the install key
+ */
+export async function signRequest(installKey: string, canonical: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(installKey),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(canonical)))
+}
+
+/**
+ * Check a signed request: timestamp within `MAX_SKEW_SECONDS`, signature, then nonce
+ * The nonce is only recorded once the signature is valid, so forged requests cannot burn it
+ * KV is eventually consistent: a replay reaching another location within seconds can slip through
+ */
+export async function verifySignedRequest(
+  kv: KVNamespace,
+  db: D1Database,
+  userId: string,
+  request: Request,
+  now = Math.floor(Date.now() / 1000)
+): Promise<SignatureVerification> {
+  const signature = request.headers.get(SIGNATURE_HEADER) ?? ''
+  const timestamp = request.headers.get(TIMESTAMP_HEADER) ?? ''
+  const nonce = request.headers.get(NONCE_HEADER) ?? ''
+
+  if (!/^\d{1,12}$/.test(timestamp) || !NONCE_PATTERN.test(nonce)) {
+    return {
+      ok: false,
+      code: 'invalid_signature',
+      message: `${TIMESTAMP_HEADER} must be Unix seconds and ${NONCE_HEADER} 16-128 letters, digits, "-" or "_"`,
+    }
+  }
+
+  if (Math.abs(now - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    return {
+      ok: false,
+      code: 'stale_signature',
+      message: `Signature timestamp is more than ${MAX_SKEW_SECONDS} seconds away from server time`,
+    }
+  }
+
+  const installKey = await getInstallKey(db, userId)
+  if (!installKey) {
+    return {
+      ok: false,
+      code: 'invalid_signature',
+      message: 'No signing key registered for this user',
+    }
+  }
+
+  const url = new URL(request.url)
+  const canonical = await canonicalRequest(
+    request.method,
+    `${url.pathname}${url.search}`,
+    timestamp,
+    nonce,
+    await request.arrayBuffer()
+  )
+  const expected = await signRequest(installKey, canonical)
+  if (!constantTimeEqual(expected, signature.toLowerCase())) {
+    return { ok: false, code: 'invalid_signature', message: 'Invalid request signature' }
+  }
+
+  if (await kv.get(nonceKey(userId, nonce))) {
+    return { ok: false, code: 'replayed_nonce', message: 'Request nonce already used' }
+  }
+  await kv.put(nonceKey(userId, nonce), timestamp, { expirationTtl: NONCE_TTL_SECONDS })
+
+  return { ok: true }
+}
+
+/**
+ * Whether a request path matches one of the route patterns
+ */
+function matchesRoute(patterns: string[], path: string): boolean {
+  const segments = path.split('/')
+  return patterns.some((pattern) => {
+    const expected = pattern.split('/')
+    return (
+      expected.length === segments.length &&
+      expected.every(
+        (segment, index) =>
+          segment === segments[index] || (segment.startsWith(':') && segments[index] !== '')
+      )
+    )
+  })
+}
+
+/**
+ * Hono middleware verifying HMAC request signatures (runs after requireSession)
+ * Signed requests are always verified; unsigned ones are only refused on `enforcedPaths`
+ * Sets `signedRequest` once the signature is valid, for routes that only use some data when signed
+ */
+export function requestSigning(options: RequestSigningOptions = {}) {
+  const { enforcedPaths = [], publicPaths = [] } = options
+
+  return createMiddleware<RequestSigningEnv>(async (c, next) => {
+    if (publicPaths.includes(c.req.path)) {
+      return next()
+    }
+
+    if (!c.req.header(SIGNATURE_HEADER)) {
+      if (!matchesRoute(enforcedPaths, c.req.path)) {
+        return next()
+      }
+      return c.json(
+        {
+          error: 'Unauthorized',
+          code: 'missing_signature',
+          message: `This route requires a signed request (${SIGNATURE_HEADER})`,
+        },
+        401
+      )
+    }
+
+    // Cloned: the handler still reads the body
+    const verification = await verifySignedRequest(
+      c.env.RATE_LIMITER,
+      c.env.DB,
+      c.get('userId'),
+      c.req.raw.clone()
+    )
+    if (!verification.ok) {
+      return c.json(
+        { error: 'Unauthorized', code: verification.code, message: verification.message },
+        401
+      )
+    }
+
+    c.set('signedRequest', true)
+    await next()
+  })
+}
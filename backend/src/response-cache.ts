@@ -0,0 +1,93 @@
+import type { GenerationUsage } from './chat-stream'
+import type { ChatMessage } from './conversations'
+import type { ProviderName } from './providers'
+import { toOpenAIStream } from './sse'
+import type { JsonSchemaFormat } from './structured-output'
+
+export interface CachedResponse {
+  output: string
+  usage: GenerationUsage
+  provider: ProviderName
+  createdAt: string
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS'
+
+/** KV only accepts expirations of at least 60 seconds */
+const MIN_TTL_SECONDS = 60
+
+/**
+ * JSON with sorted object keys, so equivalent schemas hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * KV key of a request: SHA-256 of the model, the normalized messages and the response format
+ */
+export async function responseCacheKey(
+  model: string,
+  messages: ChatMessage[],
+  responseFormat?: JsonSchemaFormat
+): Promise<string> {
+  const normalized = stableStringify({
+    model,
+    messages: messages.map((message) => ({
+      role: message.role,
+      content: message.content.trim().replace(/\r\n/g, '\n'),
+    })),
+    responseFormat,
+  })
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  const hash = [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+  return `cache:response:${hash}`
+}
+
+export async function getCachedResponse(
+  kv: KVNamespace,
+  key: string
+): Promise<CachedResponse | null> {
+  try {
+    return await kv.get<CachedResponse>(key, 'json')
+  } catch (error) {
+    console.error('Response cache read error:', error)
+    return null
+  }
+}
+
+export async function putCachedResponse(
+  kv: KVNamespace,
+  key: string,
+  entry: CachedResponse,
+  ttlSeconds: number
+): Promise<void> {
+  await kv.put(key, JSON.stringify(entry), {
+    expirationTtl: Math.max(ttlSeconds, MIN_TTL_SECONDS),
+  })
+}
+
+/**
+ * Replay a cached answer as a normalized upstream stream, so every response format
+ * gets the same frames as a live generation
+ */
+export function replayCachedResponse(entry: CachedResponse): ReadableStream<Uint8Array> {
+  async function* deltas() {
+    yield { content: entry.output }
+    yield { usage: entry.usage }
+  }
+
+  return toOpenAIStream(deltas())
+}
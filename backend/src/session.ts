@@ -0,0 +1,230 @@
+import { createMiddleware } from 'hono/factory'
+
+/**
+ * HMAC key signing session tokens
+ * `id` goes in the token header (`kid`) so older keys keep verifying during a rotation
+ */
+export interface SigningKey {
+  id: string
+  secret: string
+}
+
+export interface SessionClaims {
+  /** App user ID (UserIdentityService) the token is bound to */
+  sub: string
+  iss: string
+  iat: number
+  exp: number
+}
+
+export interface SessionToken {
+  token: string
+  expiresAt: number
+}
+
+export type SessionVerification =
+  | { ok: true; claims: SessionClaims }
+  | { ok: false; code: 'invalid_session' | 'session_expired'; message: string }
+
+type SessionEnv = {
+  Bindings: {
+    SESSION_SIGNING_KEYS?: string
+  }
+  Variables: {
+    userId: string
+  }
+}
+
+export const SESSION_TTL_SECONDS = 3600
+
+const ISSUER = 'healthapp-backend'
+const MIN_SECRET_LENGTH = 32
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+const encoder = new TextEncoder()
+
+export function isValidUserId(value: string | undefined): value is string {
+  return value !== undefined && USER_ID_PATTERN.test(value)
+}
+
+/**
+ * Parse `SESSION_SIGNING_KEYS`: comma-separated `kid:secret` pairs, the first one signs
+ * Pairs with a secret shorter than 32 characters are ignored
+ */
+export function parseSigningKeys(value: string | undefined): SigningKey[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      return { id: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() }
+    })
+    .filter((key) => key.id !== '' && key.secret.length >= MIN_SECRET_LENGTH)
+}
+
+/**
+ * Compare two secrets without leaking where they differ
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  if (left.byteLength !== right.byteLength) {
+    return false
+  }
+  return crypto.subtle.timingSafeEqual(left, right)
+}
+
+function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  )
+}
+
+/**
+ * Issue an HS256 JWT bound to a user ID
+ */
+export async function signSessionToken(
+  key: SigningKey,
+  userId: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<SessionToken> {
+  const claims: SessionClaims = {
+    sub: userId,
+    iss: ISSUER,
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS,
+  }
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: key.id }))
+  const payload = base64UrlEncode(JSON.stringify(claims))
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importKey(key.secret, 'sign'),
+    encoder.encode(`${header}.${payload}`)
+  )
+
+  return {
+    token: `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`,
+    expiresAt: claims.exp,
+  }
+}
+
+/**
+ * Check a session token's signature against the key named by its `kid`, then its claims
+ */
+export async function verifySessionToken(
+  keys: SigningKey[],
+  token: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<SessionVerification> {
+  const invalid = { ok: false, code: 'invalid_session', message: 'Invalid session token' } as const
+
+  const [header, payload, signature, ...rest] = token.split('.')
+  if (!header || !payload || !signature || rest.length > 0) {
+    return invalid
+  }
+
+  let claims: SessionClaims
+  let key: SigningKey | undefined
+  let signatureBytes: Uint8Array
+  try {
+    const { alg, kid } = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)))
+    key = alg === 'HS256' ? keys.find((candidate) => candidate.id === kid) : undefined
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)))
+    signatureBytes = base64UrlDecode(signature)
+  } catch {
+    return invalid
+  }
+
+  // Unknown kid: signed with a key that has been retired
+  if (!key) {
+    return invalid
+  }
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await importKey(key.secret, 'verify'),
+    signatureBytes,
+    encoder.encode(`${header}.${payload}`)
+  )
+  if (!valid || claims.iss !== ISSUER || !isValidUserId(claims.sub)) {
+    return invalid
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp <= now) {
+    return { ok: false, code: 'session_expired', message: 'Session token expired' }
+  }
+
+  return { ok: true, claims }
+}
+
+/**
+ * Hono middleware requiring `Authorization: Bearer <session token>` outside `publicPaths`
+ * Sets the `userId` variable from the token; a different X-User-ID header is refused
+ */
+export function requireSession(publicPaths: string[]) {
+  return createMiddleware<SessionEnv>(async (c, next) => {
+    if (publicPaths.includes(c.req.path)) {
+      return next()
+    }
+
+    const keys = parseSigningKeys(c.env.SESSION_SIGNING_KEYS)
+    if (keys.length === 0) {
+      console.error('SESSION_SIGNING_KEYS is not configured')
+      return c.json({ error: 'Internal Server Error', message: 'Sessions are not configured' }, 500)
+    }
+
+    const authorization = c.req.header('Authorization') ?? ''
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : ''
+    if (!token) {
+      return c.json(
+        {
+          error: 'Unauthorized',
+          code: 'missing_session',
+          message: 'Missing session token, create one with POST /api/session',
+        },
+        401
+      )
+    }
+
+    const verification = await verifySessionToken(keys, token)
+    if (!verification.ok) {
+      return c.json(
+        { error: 'Unauthorized', code: verification.code, message: verification.message },
+        401
+      )
+    }
+
+    const headerUserId = c.req.header('X-User-ID')
+    if (headerUserId && headerUserId !== verification.claims.sub) {
+      return c.json(
+        {
+          error: 'Unauthorized',
+          code: 'user_mismatch',
+          message: 'X-User-ID does not match the session',
+        },
+        401
+      )
+    }
+
+    c.set('userId', verification.claims.sub)
+    await next()
+  })
+}
@@ -0,0 +1,130 @@
+export interface SSEEvent {
+  event?: string
+  data: string
+}
+
+/**
+ * OpenAI-compatible streaming chunk, the format every provider stream is normalized to
+ */
+export interface StreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string
+      /** Pieces of tool calls, `index` tells which call a piece continues */
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+    /** `content_filter` when the provider's moderation stopped the answer */
+    finish_reason?: string | null
+  }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    total_tokens?: number
+    /** Billed USD, OpenRouter only */
+    cost?: number
+  }
+  /** Added by the tool loop: calls the app has to resolve, see src/tool-loop.ts */
+  tool_request?: {
+    calls: Array<{ id: string; name: string; arguments: unknown }>
+  }
+  /** Mid-stream failure reported in-band (OpenRouter), `code` being an HTTP status */
+  error?: {
+    code?: number | string
+    message?: string
+  }
+}
+
+export interface StreamDelta {
+  content?: string
+  usage?: StreamChunk['usage']
+  finishReason?: string
+}
+
+/**
+ * Parse a Server-Sent Events body into events
+ * Lines split across reads are buffered until complete
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event: string | undefined
+  let data: string[] = []
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      // Keep the last incomplete line in buffer
+      buffer = done ? '' : lines.pop() || ''
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine
+
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') }
+          }
+          event = undefined
+          data = []
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart())
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        }
+        // Comments (":") and other fields are ignored
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') }
+        }
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Encode deltas as an OpenAI-compatible SSE stream terminated by `[DONE]`
+ */
+export function toOpenAIStream(deltas: AsyncIterable<StreamDelta>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const iterator = deltas[Symbol.asyncIterator]()
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next()
+        if (done) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+          controller.close()
+          return
+        }
+
+        const choice = {
+          ...(value.content ? { delta: { content: value.content } } : {}),
+          ...(value.finishReason ? { finish_reason: value.finishReason } : {}),
+        }
+        const chunk: StreamChunk = {
+          choices: Object.keys(choice).length > 0 ? [choice] : [],
+          ...(value.usage ? { usage: value.usage } : {}),
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
@@ -0,0 +1,299 @@
+import { DurableObject } from 'cloudflare:workers'
+import {
+  encodeEnd,
+  encodeFrame,
+  type GenerationEnd,
+  type GenerationRecorder,
+  HEARTBEAT_FRAME,
+  type ResponseFormat,
+} from './chat-stream'
+
+/** How long a generation can be resumed, counted from its start and again from its end */
+export const STREAM_BUFFER_TTL_SECONDS = 5 * 60
+/** How long a generation waits for the app to answer its `tool_request` */
+export const TOOL_RESULTS_TIMEOUT_SECONDS = 30
+
+// Storage writes are limited to 128 keys
+const MAX_FRAMES_PER_WRITE = 100
+const FRAME_KEY_PREFIX = 'frame:'
+const TRACE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export interface BufferedFrame {
+  id: number
+  raw: string
+}
+
+type StreamFormat = Exclude<ResponseFormat, 'json'>
+
+interface Follower {
+  writer: WritableStreamDefaultWriter<Uint8Array>
+  format: StreamFormat
+  heartbeat?: ReturnType<typeof setInterval>
+}
+
+const encoder = new TextEncoder()
+
+function stopHeartbeat(follower: Follower) {
+  if (follower.heartbeat !== undefined) {
+    clearInterval(follower.heartbeat)
+  }
+}
+
+// Zero-padded so that keys list in frame order
+function frameKey(id: number): string {
+  return `${FRAME_KEY_PREFIX}${id.toString().padStart(10, '0')}`
+}
+
+/**
+ * Copy of one generation, keyed by its trace ID
+ * Frames are stored as they arrive; readers that reconnect get the stored ones after their
+ * Last-Event-ID, then follow the live ones until the end
+ */
+export class GenerationBufferDurableObject extends DurableObject {
+  private followers: Follower[] = []
+  /** Set from `expectToolResults` until the generation got the results or gave up */
+  private toolResults?: {
+    received?: Record<string, unknown>
+    deliver?: (results: Record<string, unknown>) => void
+  }
+
+  /** Start buffering a generation of `userId` */
+  async open(userId: string): Promise<void> {
+    await this.ctx.storage.put('owner', userId)
+    await this.ctx.storage.setAlarm(Date.now() + STREAM_BUFFER_TTL_SECONDS * 1000)
+  }
+
+  /** Store frames and forward them to readers */
+  async append(frames: BufferedFrame[]): Promise<void> {
+    await this.ctx.storage.put(
+      Object.fromEntries(frames.map((frame) => [frameKey(frame.id), frame.raw]))
+    )
+    for (const frame of frames) {
+      for (const follower of this.followers) {
+        this.send(follower, frame)
+      }
+    }
+  }
+
+  /** Whether a reader is following the live frames (readers that left are dropped on a write) */
+  async isFollowed(): Promise<boolean> {
+    return this.followers.length > 0
+  }
+
+  /** Mark the generation as ended, it stays readable for another TTL */
+  async finish(end: GenerationEnd): Promise<void> {
+    await this.ctx.storage.put('end', end)
+    for (const follower of this.followers) {
+      this.close(follower, end)
+    }
+    this.followers = []
+    await this.ctx.storage.setAlarm(Date.now() + STREAM_BUFFER_TTL_SECONDS * 1000)
+  }
+
+  /**
+   * Frames after `afterId` encoded in `format`, live until the generation ends
+   * SSE live readers get a comment frame every `heartbeatMs`, like the original stream
+   * Null when nothing is buffered for this trace ID and user
+   */
+  async read(
+    userId: string,
+    afterId: number,
+    format: StreamFormat,
+    heartbeatMs?: number
+  ): Promise<ReadableStream<Uint8Array> | null> {
+    const owner = await this.ctx.storage.get<string>('owner')
+    if (owner !== userId) {
+      return null
+    }
+    const stored = await this.ctx.storage.list<string>({
+      prefix: FRAME_KEY_PREFIX,
+      start: frameKey(afterId + 1),
+    })
+    const end = await this.ctx.storage.get<GenerationEnd>('end')
+
+    // Writes are queued without awaiting them: no append can run between the reads above
+    // and registering the follower below
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+    const follower: Follower = { writer: writable.getWriter(), format }
+    for (const [key, raw] of stored) {
+      this.send(follower, { id: Number(key.slice(FRAME_KEY_PREFIX.length)), raw })
+    }
+    if (end) {
+      this.close(follower, end)
+    } else {
+      // NDJSON has no comment syntax, as in pipeGeneration
+      if (heartbeatMs && format !== 'ndjson') {
+        follower.heartbeat = setInterval(() => {
+          follower.writer.write(encoder.encode(HEARTBEAT_FRAME)).catch(() => this.drop(follower))
+        }, heartbeatMs)
+      }
+      this.followers.push(follower)
+    }
+    return readable
+  }
+
+  /**
+   * Accept the app's answer to a `tool_request` from now on
+   * Called before the request is sent: results arriving before `awaitToolResults` are kept
+   */
+  async expectToolResults(): Promise<void> {
+    this.toolResults = {}
+  }
+
+  /**
+   * Wait for the app's answer to the expected `tool_request`, by call ID
+   * Resolves empty after `timeoutMs`, the calls then get no data
+   */
+  async awaitToolResults(timeoutMs: number): Promise<Record<string, unknown>> {
+    const expected = this.toolResults
+    if (!expected) {
+      return {}
+    }
+    if (expected.received) {
+      this.toolResults = undefined
+      return expected.received
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => expected.deliver?.({}), timeoutMs)
+      expected.deliver = (results) => {
+        clearTimeout(timer)
+        if (this.toolResults === expected) {
+          this.toolResults = undefined
+        }
+        resolve(results)
+      }
+    })
+  }
+
+  /** Hand tool results to the generation; false when it is not `userId`'s or expects none */
+  async submitToolResults(userId: string, results: Record<string, unknown>): Promise<boolean> {
+    const owner = await this.ctx.storage.get<string>('owner')
+    const expected = this.toolResults
+    if (owner !== userId || !expected || expected.received) {
+      return false
+    }
+    if (expected.deliver) {
+      expected.deliver(results)
+    } else {
+      expected.received = results
+    }
+    return true
+  }
+
+  async alarm(): Promise<void> {
+    for (const follower of this.followers) {
+      stopHeartbeat(follower)
+      follower.writer.close().catch(() => {})
+    }
+    this.followers = []
+    await this.ctx.storage.deleteAll()
+  }
+
+  private send(follower: Follower, frame: BufferedFrame) {
+    const encoded = encodeFrame(follower.format, frame.raw, JSON.parse(frame.raw), frame.id)
+    if (encoded) {
+      follower.writer.write(encoder.encode(encoded)).catch(() => this.drop(follower))
+    }
+  }
+
+  // Same ending as the live stream: usage or the error code
+  private close(follower: Follower, end: GenerationEnd) {
+    stopHeartbeat(follower)
+    const encoded = encodeEnd(follower.format, end)
+    if (encoded) {
+      follower.writer.write(encoder.encode(encoded)).catch(() => {})
+    }
+    follower.writer.close().catch(() => {})
+  }
+
+  private drop(follower: Follower) {
+    stopHeartbeat(follower)
+    this.followers = this.followers.filter((other) => other !== follower)
+  }
+}
+
+export function isValidTraceId(traceId: string): boolean {
+  return TRACE_ID_PATTERN.test(traceId)
+}
+
+/**
+ * Durable Object instance buffering the generation `traceId`
+ */
+export function getGenerationBuffer(
+  namespace: DurableObjectNamespace<GenerationBufferDurableObject>,
+  traceId: string
+) {
+  return namespace.get(namespace.idFromName(traceId))
+}
+
+/**
+ * Recorder copying a generation to its buffer
+ * Frames written while a previous write is in flight are batched into the next one
+ */
+export function createGenerationRecorder(
+  namespace: DurableObjectNamespace<GenerationBufferDurableObject>,
+  traceId: string,
+  userId: string,
+  waitUntil: (promise: Promise<void>) => void
+): GenerationRecorder {
+  const buffer = getGenerationBuffer(namespace, traceId)
+  const pending: BufferedFrame[] = []
+  let failed = false
+  let scheduled = false
+
+  const fail = (error: unknown) => {
+    failed = true
+    console.error('Generation buffer error:', error)
+  }
+  let queue: Promise<void> = buffer.open(userId).catch(fail)
+  const enqueue = (step: () => Promise<void>) => {
+    queue = queue.then(() => (failed ? undefined : step())).catch(fail)
+    waitUntil(queue)
+  }
+
+  return {
+    frame(id, raw) {
+      pending.push({ id, raw })
+      if (scheduled) {
+        return
+      }
+      scheduled = true
+      enqueue(async () => {
+        scheduled = false
+        while (pending.length > 0) {
+          await buffer.append(pending.splice(0, MAX_FRAMES_PER_WRITE))
+        }
+      })
+    },
+
+    end(result) {
+      enqueue(() =>
+        buffer.finish({
+          completed: result.completed,
+          usage: result.usage,
+          errorCode: result.errorCode,
+        })
+      )
+    },
+
+    // Asked when needed: a client may resume while no frame is being written
+    isFollowed: async () => !failed && (await buffer.isFollowed()),
+  }
+}
+
+/**
+ * Ask the app for tool results through the generation's buffer, see `submitToolResults`
+ * The buffer expects the results before `send` writes the request, so an early answer is kept
+ */
+export function createToolResultsRequester(
+  namespace: DurableObjectNamespace<GenerationBufferDurableObject>,
+  traceId: string
+): (send: () => Promise<void>) => Promise<Record<string, unknown>> {
+  const buffer = getGenerationBuffer(namespace, traceId)
+  return async (send) => {
+    await buffer.expectToolResults()
+    await send()
+    return buffer.awaitToolResults(TOOL_RESULTS_TIMEOUT_SECONDS * 1000)
+  }
+}
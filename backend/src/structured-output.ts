@@ -0,0 +1,94 @@
+import type { ChatMessage } from './conversations'
+import { type JsonSchema, validateJson } from './json-schema'
+
+/**
+ * `responseFormat` option of the chat API
+ */
+export interface JsonSchemaFormat {
+  type: 'json_schema'
+  name: string
+  schema: JsonSchema
+}
+
+export type StructuredOutput = { ok: true; data: unknown } | { ok: false; errors: string[] }
+
+const FORMAT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+const MAX_SCHEMA_LENGTH = 8000
+
+/**
+ * Validate the client-supplied `responseFormat`
+ * Returns an error message, or undefined when the format is usable
+ */
+export function validateResponseFormat(value: unknown): string | undefined {
+  const format = value as Partial<JsonSchemaFormat> | null
+
+  if (!format || typeof format !== 'object' || format.type !== 'json_schema') {
+    return 'responseFormat.type must be "json_schema"'
+  }
+  if (typeof format.name !== 'string' || !FORMAT_NAME_PATTERN.test(format.name)) {
+    return 'responseFormat.name must be 1-64 letters, digits, "-" or "_"'
+  }
+  if (!format.schema || typeof format.schema !== 'object' || Array.isArray(format.schema)) {
+    return 'responseFormat.schema must be a JSON schema object'
+  }
+  if (JSON.stringify(format.schema).length > MAX_SCHEMA_LENGTH) {
+    return `responseFormat.schema too large (max ${MAX_SCHEMA_LENGTH} characters)`
+  }
+
+  return undefined
+}
+
+/**
+ * Parse model output as JSON and check it against the schema
+ * Tolerates a surrounding markdown code fence
+ */
+export function parseStructuredOutput(output: string, format: JsonSchemaFormat): StructuredOutput {
+  const fenced = output.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  const text = fenced ? fenced[1] : output.trim()
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ['Output is not valid JSON'] }
+  }
+
+  const errors = validateJson(data, format.schema)
+  return errors.length === 0 ? { ok: true, data } : { ok: false, errors }
+}
+
+/**
+ * Instruction for providers without native structured output
+ */
+export function schemaInstruction(format: JsonSchemaFormat): string {
+  return [
+    'Respond with a single JSON object and nothing else (no markdown, no code fence).',
+    `It must match this JSON schema (${format.name}):`,
+    JSON.stringify(format.schema),
+  ].join('\n')
+}
+
+/**
+ * Follow-up turn asking the model to fix an answer that failed validation
+ */
+export function buildRepairMessages(
+  messages: ChatMessage[],
+  output: string,
+  format: JsonSchemaFormat,
+  errors: string[]
+): ChatMessage[] {
+  return [
+    ...messages,
+    // Providers reject empty assistant turns
+    ...(output.trim() ? [{ role: 'assistant' as const, content: output }] : []),
+    {
+      role: 'user',
+      content: [
+        'Your previous answer does not match the required JSON schema:',
+        ...errors.map((error) => `- ${error}`),
+        '',
+        schemaInstruction(format),
+      ].join('\n'),
+    },
+  ]
+}
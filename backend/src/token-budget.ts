@@ -0,0 +1,155 @@
+import { getRateLimiter, type RateLimiterDurableObject } from './rate-limiter'
+
+export interface TokenBudget {
+  name: string
+  windowSeconds: number
+  maxTokens: number
+  maxCostUsd: number
+}
+
+export interface BudgetStatus {
+  name: string
+  windowSeconds: number
+  tokensLimit: number
+  tokensRemaining: number
+  costLimitUsd: number
+  costRemainingUsd: number
+  resetIn: number
+}
+
+export type BudgetCheck = { allowed: true } | { allowed: false; budget: string; retryAfter: number }
+
+/**
+ * Per-user budgets, charged with the tokens and estimated cost of each generation
+ * A 50-token classification call weighs much less than a long GPT-5 analysis
+ */
+export const TOKEN_BUDGETS: TokenBudget[] = [
+  { name: 'hourly', windowSeconds: 3600, maxTokens: 60_000, maxCostUsd: 0.25 },
+  { name: 'daily', windowSeconds: 86400, maxTokens: 250_000, maxCostUsd: 1 },
+]
+
+// Cost is counted in micro-dollars so the counters stay integers
+const MICRO_USD = 1_000_000
+
+type LimiterNamespace = DurableObjectNamespace<RateLimiterDurableObject>
+
+function tokensLimiter(namespace: LimiterNamespace, budget: TokenBudget, userId: string) {
+  return getRateLimiter(namespace, `budget:${budget.name}:tokens:${userId}`)
+}
+
+function costLimiter(namespace: LimiterNamespace, budget: TokenBudget, userId: string) {
+  return getRateLimiter(namespace, `budget:${budget.name}:cost:${userId}`)
+}
+
+/**
+ * Budgets of a user, scaled by the admin-granted limit multiplier
+ */
+function userBudgets(multiplier = 1): TokenBudget[] {
+  return TOKEN_BUDGETS.map((budget) => ({
+    ...budget,
+    maxTokens: Math.floor(budget.maxTokens * multiplier),
+    maxCostUsd: budget.maxCostUsd * multiplier,
+  }))
+}
+
+/**
+ * Refuse new generations once any budget is spent
+ * The request itself is charged afterwards, when its usage is known
+ */
+export async function checkTokenBudget(
+  namespace: LimiterNamespace,
+  userId: string,
+  multiplier?: number
+): Promise<BudgetCheck> {
+  for (const budget of userBudgets(multiplier)) {
+    const [tokens, cost] = await Promise.all([
+      tokensLimiter(namespace, budget, userId).peek(budget.maxTokens, budget.windowSeconds, 1),
+      costLimiter(namespace, budget, userId).peek(
+        budget.maxCostUsd * MICRO_USD,
+        budget.windowSeconds,
+        1
+      ),
+    ])
+
+    if (!tokens.allowed || !cost.allowed) {
+      return {
+        allowed: false,
+        budget: budget.name,
+        retryAfter: Math.max(tokens.retryAfter, cost.retryAfter),
+      }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Charge a completed generation against every budget
+ */
+export async function chargeTokenBudget(
+  namespace: LimiterNamespace,
+  userId: string,
+  tokens: number,
+  costUsd: number,
+  multiplier?: number
+): Promise<void> {
+  const microUsd = Math.ceil(costUsd * MICRO_USD)
+
+  await Promise.all(
+    userBudgets(multiplier).flatMap((budget) => [
+      tokensLimiter(namespace, budget, userId).charge(
+        budget.maxTokens,
+        budget.windowSeconds,
+        tokens
+      ),
+      costLimiter(namespace, budget, userId).charge(
+        budget.maxCostUsd * MICRO_USD,
+        budget.windowSeconds,
+        microUsd
+      ),
+    ])
+  )
+}
+
+/**
+ * Remaining budgets for a user (used by /api/stats and the admin API)
+ */
+export async function getBudgetReport(
+  namespace: LimiterNamespace,
+  userId: string,
+  multiplier?: number
+): Promise<BudgetStatus[]> {
+  return Promise.all(
+    userBudgets(multiplier).map(async (budget) => {
+      const [tokens, cost] = await Promise.all([
+        tokensLimiter(namespace, budget, userId).peek(budget.maxTokens, budget.windowSeconds),
+        costLimiter(namespace, budget, userId).peek(
+          budget.maxCostUsd * MICRO_USD,
+          budget.windowSeconds
+        ),
+      ])
+
+      return {
+        name: budget.name,
+        windowSeconds: budget.windowSeconds,
+        tokensLimit: budget.maxTokens,
+        tokensRemaining: tokens.remaining,
+        costLimitUsd: budget.maxCostUsd,
+        costRemainingUsd: cost.remaining / MICRO_USD,
+        resetIn: tokens.reset,
+      }
+    })
+  )
+}
+
+/**
+ * Clear every budget counter of a user
+ */
+export async function resetTokenBudgets(namespace: LimiterNamespace, userId: string) {
+  await Promise.all(
+    TOKEN_BUDGETS.flatMap((budget) => [
+      tokensLimiter(namespace, budget, userId).reset(),
+      costLimiter(namespace, budget, userId).reset(),
+    ])
+  )
+}
@@ -0,0 +1,196 @@
+import {
+  addUsage,
+  consumeGeneration,
+  GenerationError,
+  type GenerationUsage,
+  type UpstreamTimeouts,
+} from './chat-stream'
+import type { ModelPolicy } from './models'
+import {
+  type ChatProvider,
+  type ProviderMessage,
+  streamWithFailover,
+  type ToolCall,
+} from './providers'
+import type { StreamChunk } from './sse'
+import { TOOL_DEFINITIONS, type ToolResolver, validateToolArguments } from './tools'
+
+/** Model calls of one request: up to 3 rounds of tool calls, then the answer */
+export const MAX_TOOL_STEPS = 4
+
+export type ClientToolCall = NonNullable<StreamChunk['tool_request']>['calls'][number]
+
+export interface ToolLoopOptions {
+  chain: ChatProvider[]
+  policy: ModelPolicy
+  /** Messages of the first model call */
+  messages: ProviderMessage[]
+  signal?: AbortSignal
+  /** Applied to each model call */
+  timeouts?: UpstreamTimeouts
+  /** Tried in order on each call */
+  resolvers: ToolResolver[]
+  /**
+   * Ask the app for the calls no resolver answered, `send` writing the `tool_request` frame
+   * Results by call id, possibly partial
+   */
+  requestFromClient?: (send: () => Promise<void>) => Promise<Record<string, unknown>>
+}
+
+type ChunkWriter = (chunk: StreamChunk) => Promise<void>
+
+function parseArguments(call: ToolCall): { ok: true; args: unknown } | { ok: false } {
+  try {
+    return { ok: true, args: JSON.parse(call.function.arguments || '{}') }
+  } catch {
+    return { ok: false }
+  }
+}
+
+/**
+ * Results of a step's tool calls by call id
+ * Invalid calls get an error result the model can react to, calls nobody answers too
+ */
+async function resolveToolCalls(
+  calls: ToolCall[],
+  options: ToolLoopOptions,
+  write: ChunkWriter
+): Promise<Map<string, unknown>> {
+  const results = new Map<string, unknown>()
+  const unresolved: ClientToolCall[] = []
+
+  for (const call of calls) {
+    const { name } = call.function
+    const parsed = parseArguments(call)
+    if (!parsed.ok) {
+      results.set(call.id, { error: 'Arguments are not valid JSON' })
+      continue
+    }
+    const errors = validateToolArguments(name, parsed.args)
+    if (!errors) {
+      results.set(call.id, { error: `Unknown tool ${name}` })
+      continue
+    }
+    if (errors.length > 0) {
+      results.set(call.id, { error: 'Invalid arguments', details: errors })
+      continue
+    }
+
+    let result: unknown
+    for (const resolve of options.resolvers) {
+      result = await resolve(name, parsed.args as Record<string, unknown>)
+      if (result !== undefined) {
+        break
+      }
+    }
+    if (result === undefined) {
+      unresolved.push({ id: call.id, name, arguments: parsed.args })
+    } else {
+      results.set(call.id, result)
+    }
+  }
+
+  if (unresolved.length > 0 && options.requestFromClient) {
+    const answers = await options.requestFromClient(() =>
+      write({ tool_request: { calls: unresolved } })
+    )
+    for (const call of unresolved) {
+      if (answers[call.id] !== undefined) {
+        results.set(call.id, answers[call.id])
+      }
+    }
+  }
+  for (const call of unresolved) {
+    if (!results.has(call.id)) {
+      results.set(call.id, { error: 'No data available' })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Run the tool calling loop behind a first model call started with `TOOL_DEFINITIONS`
+ * Returns a normalized stream, like a provider's: the content of every step, `tool_request`
+ * frames for the app, the usage summed over the steps, then `[DONE]`
+ * Tool call deltas stay server-side; a failed step errors the stream
+ */
+export function runToolLoop(
+  first: ReadableStream<Uint8Array>,
+  options: ToolLoopOptions
+): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = writable.getWriter()
+  const encoder = new TextEncoder()
+  const write: ChunkWriter = (chunk) =>
+    writer.write(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`))
+
+  const run = async () => {
+    const messages = [...options.messages]
+    let usage: GenerationUsage = {}
+    let body = first
+
+    for (let step = 1; ; step++) {
+      const calls: ToolCall[] = []
+      const result = await consumeGeneration(
+        body,
+        async (_raw, chunk) => {
+          const delta = chunk.choices?.[0]?.delta
+          for (const piece of delta?.tool_calls ?? []) {
+            calls[piece.index] ??= {
+              id: `call_${step}_${piece.index}`,
+              type: 'function',
+              function: { name: '', arguments: '' },
+            }
+            const call = calls[piece.index]
+            call.id = piece.id ?? call.id
+            call.function.name += piece.function?.name ?? ''
+            call.function.arguments += piece.function?.arguments ?? ''
+          }
+          if (delta?.content) {
+            await write({ choices: [{ delta: { content: delta.content } }] })
+          }
+        },
+        options.timeouts
+      )
+      usage = step === 1 ? result.usage : addUsage(usage, result.usage)
+
+      if (!result.completed) {
+        throw new GenerationError(
+          result.errorCode ?? 'upstream_error',
+          result.error ?? 'Tool loop step failed'
+        )
+      }
+      const made = calls.filter(Boolean)
+      if (made.length === 0 || step >= MAX_TOOL_STEPS) {
+        break
+      }
+
+      const results = await resolveToolCalls(made, options, write)
+      messages.push({ role: 'assistant', content: result.output, tool_calls: made })
+      for (const call of made) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(results.get(call.id)),
+        })
+      }
+
+      const next = await streamWithFailover(options.chain, options.policy, messages, {
+        signal: options.signal,
+        tools: TOOL_DEFINITIONS,
+        // Last step: answer with what was gathered
+        toolChoice: step + 1 >= MAX_TOOL_STEPS ? 'none' : 'auto',
+      })
+      body = next.body
+    }
+
+    await write({ choices: [], usage })
+    await writer.write(encoder.encode('data: [DONE]\n\n'))
+    await writer.close()
+  }
+
+  run().catch((error) => writer.abort(error).catch(() => {}))
+
+  return readable
+}
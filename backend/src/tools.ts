@@ -0,0 +1,241 @@
+import { type JsonSchema, validateJson } from './json-schema'
+import type { ToolDefinition } from './providers'
+import { getWorkout, listWorkouts } from './workout-history'
+import { WORKOUT_SCHEMA, type WorkoutPayload } from './workouts'
+
+/** Workout uploaded for tool calls, with its HealthKit UUID */
+export interface ToolWorkout extends WorkoutPayload {
+  id: string
+}
+
+/**
+ * Recovery metrics of one day, mirrors the app's `RecoveryMetrics` + `SleepData`
+ * Units: bpm, ms (HRV SDNN), breaths/min, seconds
+ */
+export interface RecoveryPayload {
+  /** Day as YYYY-MM-DD */
+  date: string
+  restingHeartRate?: number
+  hrv?: number
+  walkingHeartRate?: number
+  respiratoryRate?: number
+  totalSleepDuration?: number
+  timeInBed?: number
+  deepSleepDuration?: number
+  coreSleepDuration?: number
+  remSleepDuration?: number
+  awakeDuration?: number
+  napDuration?: number
+}
+
+/** `tools` field of a chat request, enables tool calling */
+export interface ToolsRequest {
+  /** Data the tools are resolved against before anything else */
+  workouts?: ToolWorkout[]
+  recovery?: RecoveryPayload[]
+  /** Send calls nothing else answers to the app, as `tool_request` events (streaming only) */
+  clientResolution?: boolean
+}
+
+export type ToolsValidation = { ok: true; tools: ToolsRequest } | { ok: false; errors: string[] }
+
+/**
+ * Answer to a tool call, undefined when this source has nothing for it
+ * Sources are tried in order, see src/tool-loop.ts
+ */
+export type ToolResolver = (name: string, args: Record<string, unknown>) => Promise<unknown>
+
+export const MAX_TOOL_WORKOUTS = 100
+export const MAX_TOOL_RECOVERY_DAYS = 90
+
+const DAY_MS = 24 * 3600 * 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const WORKOUT_RANGE_DAYS: Record<string, number> = {
+  last_7_days: 7,
+  last_30_days: 30,
+  last_90_days: 90,
+  last_365_days: 365,
+}
+
+const seconds: JsonSchema = { type: 'number', minimum: 0, maximum: 24 * 3600 }
+
+const TOOL_WORKOUT_SCHEMA: JsonSchema = {
+  ...WORKOUT_SCHEMA,
+  properties: {
+    ...WORKOUT_SCHEMA.properties,
+    id: { type: 'string', minLength: 1, maxLength: 64 },
+  },
+  required: [...(WORKOUT_SCHEMA.required ?? []), 'id'],
+}
+
+const RECOVERY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', minLength: 10, maxLength: 10 },
+    restingHeartRate: { type: 'number', minimum: 20, maximum: 250 },
+    hrv: { type: 'number', minimum: 0, maximum: 500 },
+    walkingHeartRate: { type: 'number', minimum: 20, maximum: 250 },
+    respiratoryRate: { type: 'number', minimum: 0, maximum: 100 },
+    totalSleepDuration: seconds,
+    timeInBed: seconds,
+    deepSleepDuration: seconds,
+    coreSleepDuration: seconds,
+    remSleepDuration: seconds,
+    awakeDuration: seconds,
+    napDuration: seconds,
+  },
+  required: ['date'],
+  additionalProperties: false,
+}
+
+const TOOLS_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    workouts: { type: 'array', items: TOOL_WORKOUT_SCHEMA, maxItems: MAX_TOOL_WORKOUTS },
+    recovery: { type: 'array', items: RECOVERY_SCHEMA, maxItems: MAX_TOOL_RECOVERY_DAYS },
+    clientResolution: { type: 'boolean' },
+  },
+  additionalProperties: false,
+}
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_workouts',
+      description:
+        "List the user's workouts in a recent period, newest first, without splits. Units: meters, seconds, min/km, km/h, bpm, W",
+      parameters: {
+        type: 'object',
+        properties: { range: { type: 'string', enum: Object.keys(WORKOUT_RANGE_DAYS) } },
+        required: ['range'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_splits',
+      description:
+        'Per-kilometer splits of one workout (pace in min/km, time in seconds, distance in meters)',
+      parameters: {
+        type: 'object',
+        properties: {
+          workoutId: { type: 'string', description: 'Workout id from get_workouts' },
+        },
+        required: ['workoutId'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_recovery',
+      description:
+        'Recovery metrics of one day: resting heart rate, HRV (SDNN, ms), respiratory rate and sleep durations (seconds)',
+      parameters: {
+        type: 'object',
+        properties: { date: { type: 'string', description: 'Day as YYYY-MM-DD' } },
+        required: ['date'],
+        additionalProperties: false,
+      },
+    },
+  },
+]
+
+/**
+ * Validate the `tools` field of a chat request
+ */
+export function validateToolsRequest(value: unknown): ToolsValidation {
+  const errors = validateJson(value, TOOLS_REQUEST_SCHEMA).map((error) =>
+    error.replace(/^\$/, 'tools')
+  )
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  const tools = value as ToolsRequest
+  if (tools.workouts?.some((workout) => Number.isNaN(Date.parse(workout.startDate)))) {
+    return { ok: false, errors: ['tools.workouts: startDate must be an ISO 8601 date'] }
+  }
+  if (tools.recovery?.some((day) => !DATE_PATTERN.test(day.date))) {
+    return { ok: false, errors: ['tools.recovery: date must be YYYY-MM-DD'] }
+  }
+
+  return { ok: true, tools }
+}
+
+/**
+ * Schema errors of a tool call's arguments, undefined for an unknown tool
+ */
+export function validateToolArguments(name: string, args: unknown): string[] | undefined {
+  const definition = TOOL_DEFINITIONS.find((tool) => tool.function.name === name)
+  return definition && validateJson(args, definition.function.parameters)
+}
+
+/**
+ * Resolver answering from the data uploaded with the request
+ * A collection that was not uploaded answers nothing, so that the next source is asked
+ */
+export function uploadedDataResolver(tools: ToolsRequest, now = Date.now()): ToolResolver {
+  return async (name, args) => {
+    switch (name) {
+      case 'get_workouts': {
+        if (!tools.workouts) {
+          return undefined
+        }
+        const since = now - WORKOUT_RANGE_DAYS[args.range as string] * DAY_MS
+        const workouts = tools.workouts
+          .filter((workout) => Date.parse(workout.startDate) >= since)
+          .sort((a, b) => Date.parse(b.startDate) - Date.parse(a.startDate))
+          .map(({ splits, heartRateZones, ...summary }) => summary)
+        return { range: args.range, workouts }
+      }
+
+      case 'get_splits': {
+        const workout = tools.workouts?.find((candidate) => candidate.id === args.workoutId)
+        return workout && { workoutId: workout.id, splits: workout.splits ?? [] }
+      }
+
+      case 'get_recovery':
+        return tools.recovery?.find((day) => day.date === args.date)
+    }
+  }
+}
+
+/**
+ * Resolver answering workout calls from the history synced with POST /api/workouts/sync
+ * An empty history answers nothing, the app may still hold the workouts
+ */
+export function workoutHistoryResolver(
+  db: D1Database,
+  userId: string,
+  now = Date.now()
+): ToolResolver {
+  return async (name, args) => {
+    switch (name) {
+      case 'get_workouts': {
+        const workouts = await listWorkouts(db, userId, {
+          from: new Date(now - WORKOUT_RANGE_DAYS[args.range as string] * DAY_MS).toISOString(),
+          limit: MAX_TOOL_WORKOUTS,
+          offset: 0,
+          splits: false,
+        })
+        return workouts.length > 0
+          ? {
+              range: args.range,
+              workouts: workouts.map(({ heartRateZones, ...summary }) => summary),
+            }
+          : undefined
+      }
+
+      case 'get_splits': {
+        const workout = await getWorkout(db, userId, args.workoutId as string)
+        return workout ? { workoutId: workout.id, splits: workout.splits ?? [] } : undefined
+      }
+    }
+  }
+}
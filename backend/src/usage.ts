@@ -0,0 +1,190 @@
+import { ERASED_USER_ID, ledgerDay } from './cost-ledger'
+
+export type UsageGroupBy = 'user' | 'model' | 'day'
+
+/** One chat request, as written by the chat routes */
+export interface UsageEvent {
+  userId: string
+  route: string
+  model: string
+  provider?: string
+  status: 'ok' | 'error'
+  cacheHit: boolean
+  latencyMs: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface UsageStats {
+  requests: number
+  errors: number
+  errorRate: number
+  cacheHits: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+  /** Nearest-rank percentiles, null without requests */
+  latencyMs: { p50: number | null; p95: number | null }
+}
+
+export interface UsageGroup extends UsageStats {
+  key: string
+}
+
+export interface UsageQuery {
+  /** Inclusive UTC days, YYYY-MM-DD */
+  from: string
+  to: string
+  groupBy: UsageGroupBy
+  userId?: string
+  /** Groups returned, most expensive first (days are returned in order) */
+  limit: number
+}
+
+export interface UsageReport {
+  totals: UsageStats
+  groups: UsageGroup[]
+}
+
+interface UsageAggregateRow {
+  key: string | null
+  requests: number
+  errors: number | null
+  cacheHits: number | null
+  inputTokens: number | null
+  outputTokens: number | null
+  costUsd: number | null
+}
+
+interface LatencyRow {
+  key: string | null
+  p50: number | null
+  p95: number | null
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  user: 'user_id',
+  model: 'model',
+  day: 'day',
+}
+
+/**
+ * Aggregates per `keyColumn` (a single row when null): requests, errors and tokens from the usage
+ * events, costs from the cost ledger, which also has the `auto` routing classifier calls
+ * Both tables share the `day`, `user_id` and `model` columns, so `where` applies to each
+ */
+function aggregateQuery(keyColumn: string | null, where: string): string {
+  const key = keyColumn ?? 'NULL'
+  const groupBy = keyColumn ? 'GROUP BY key' : ''
+  return `SELECT key, SUM(requests) AS requests, SUM(errors) AS errors,
+      SUM(cacheHits) AS cacheHits, SUM(inputTokens) AS inputTokens,
+      SUM(outputTokens) AS outputTokens, SUM(costUsd) AS costUsd
+    FROM (
+      SELECT ${key} AS key, COUNT(*) AS requests, SUM(status = 'error') AS errors,
+        SUM(cache_hit) AS cacheHits, SUM(input_tokens) AS inputTokens,
+        SUM(output_tokens) AS outputTokens, 0 AS costUsd
+      FROM usage_events ${where} ${groupBy}
+      UNION ALL
+      SELECT ${key} AS key, 0, 0, 0, 0, 0, SUM(cost_usd) FROM cost_ledger ${where} ${groupBy}
+    )
+    ${groupBy}`
+}
+
+export async function recordUsage(db: D1Database, event: UsageEvent, now = new Date()) {
+  await db
+    .prepare(
+      `INSERT INTO usage_events
+         (user_id, day, created_at, route, model, provider, status, cache_hit, latency_ms,
+          input_tokens, output_tokens)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)`
+    )
+    .bind(
+      event.userId,
+      ledgerDay(now),
+      now.toISOString(),
+      event.route,
+      event.model,
+      event.provider ?? null,
+      event.status,
+      event.cacheHit ? 1 : 0,
+      Math.round(event.latencyMs),
+      event.inputTokens,
+      event.outputTokens
+    )
+    .run()
+}
+
+/**
+ * Detach a user's usage events from their ID ("erase all my data")
+ * The events stay in the operator's totals, under `ERASED_USER_ID`
+ */
+export async function anonymizeUsage(db: D1Database, userId: string) {
+  await db
+    .prepare('UPDATE usage_events SET user_id = ?2 WHERE user_id = ?1')
+    .bind(userId, ERASED_USER_ID)
+    .run()
+}
+
+/**
+ * Nearest-rank latency percentiles per `keyColumn` (a single row when null)
+ * SQLite has no percentile function: events are ranked with window functions, and each
+ * percentile is the first latency whose rank reaches it, all in the database
+ */
+function latencyQuery(keyColumn: string | null, where: string): string {
+  const key = keyColumn ?? 'NULL'
+  return `SELECT key,
+      MIN(CASE WHEN position * 100 >= total * 50 THEN latency_ms END) AS p50,
+      MIN(CASE WHEN position * 100 >= total * 95 THEN latency_ms END) AS p95
+    FROM (
+      SELECT ${key} AS key, latency_ms,
+        ROW_NUMBER() OVER (PARTITION BY ${key} ORDER BY latency_ms) AS position,
+        COUNT(*) OVER (PARTITION BY ${key}) AS total
+      FROM usage_events ${where}
+    )
+    ${keyColumn ? 'GROUP BY key' : ''}`
+}
+
+function toStats(row: UsageAggregateRow, latencies?: LatencyRow): UsageStats {
+  const errors = row.errors ?? 0
+  return {
+    requests: row.requests,
+    errors,
+    errorRate: row.requests > 0 ? errors / row.requests : 0,
+    cacheHits: row.cacheHits ?? 0,
+    inputTokens: row.inputTokens ?? 0,
+    outputTokens: row.outputTokens ?? 0,
+    costUsd: row.costUsd ?? 0,
+    latencyMs: { p50: latencies?.p50 ?? null, p95: latencies?.p95 ?? null },
+  }
+}
+
+/**
+ * Aggregate usage over a day range, in total and per user, model or day
+ */
+export async function queryUsage(db: D1Database, query: UsageQuery): Promise<UsageReport> {
+  const column = GROUP_COLUMNS[query.groupBy]
+  const conditions = ['day BETWEEN ? AND ?', ...(query.userId ? ['user_id = ?'] : [])]
+  const where = `WHERE ${conditions.join(' AND ')}`
+  const params = [query.from, query.to, ...(query.userId ? [query.userId] : [])]
+  const order = query.groupBy === 'day' ? 'key' : 'costUsd DESC, key'
+
+  const [totals, groups, totalLatencies, groupLatencies] = await db.batch<
+    UsageAggregateRow & LatencyRow
+  >([
+    db.prepare(aggregateQuery(null, where)).bind(...params, ...params),
+    db
+      .prepare(`${aggregateQuery(column, where)} ORDER BY ${order} LIMIT ?`)
+      .bind(...params, ...params, query.limit),
+    db.prepare(latencyQuery(null, where)).bind(...params),
+    db.prepare(latencyQuery(column, where)).bind(...params),
+  ])
+  const latenciesByKey = new Map(groupLatencies.results.map((row) => [String(row.key), row]))
+
+  return {
+    totals: toStats(totals.results[0], totalLatencies.results[0]),
+    groups: groups.results.map((row) => ({
+      key: String(row.key),
+      ...toStats(row, latenciesByKey.get(String(row.key))),
+    })),
+  }
+}
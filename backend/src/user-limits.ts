@@ -0,0 +1,124 @@
+import { createMiddleware } from 'hono/factory'
+
+/**
+ * Admin-granted raise of a user's limits
+ * `multiplier` scales user-scoped rate limits, token budgets and premium quotas
+ */
+export interface LimitOverride {
+  multiplier: number
+  expiresAt: string
+  reason?: string
+  updatedAt: string
+}
+
+export type LimitOverrideValidation =
+  | { ok: true; multiplier: number; expiresAt: Date; reason?: string }
+  | { ok: false; message: string }
+
+type LimitOverrideEnv = {
+  Bindings: {
+    RATE_LIMITER: KVNamespace
+  }
+  Variables: {
+    userId?: string
+    limitMultiplier?: number
+  }
+}
+
+export const MAX_LIMIT_MULTIPLIER = 100
+export const MAX_OVERRIDE_DAYS = 90
+
+const DEFAULT_OVERRIDE_DAYS = 30
+const MAX_REASON_LENGTH = 200
+// Overrides are read on every API request, edge caching keeps that cheap
+const OVERRIDE_CACHE_TTL_SECONDS = 60
+const DAY_MS = 24 * 3600 * 1000
+
+function overrideKey(userId: string): string {
+  return `limits:override:${userId}`
+}
+
+/**
+ * Validate an admin request body `{ multiplier, expiresAt?, reason? }`
+ * Overrides always expire, after 30 days unless `expiresAt` says otherwise (90 days max)
+ */
+export function validateLimitOverride(value: unknown, now = new Date()): LimitOverrideValidation {
+  const body = (value ?? {}) as { multiplier?: unknown; expiresAt?: unknown; reason?: unknown }
+
+  const multiplier = body.multiplier
+  if (typeof multiplier !== 'number' || !(multiplier >= 1) || multiplier > MAX_LIMIT_MULTIPLIER) {
+    return { ok: false, message: `multiplier must be a number from 1 to ${MAX_LIMIT_MULTIPLIER}` }
+  }
+
+  const expiresAt =
+    body.expiresAt === undefined
+      ? new Date(now.getTime() + DEFAULT_OVERRIDE_DAYS * DAY_MS)
+      : new Date(typeof body.expiresAt === 'string' ? body.expiresAt : Number.NaN)
+  const lifetime = expiresAt.getTime() - now.getTime()
+  if (Number.isNaN(lifetime) || lifetime < 60_000 || lifetime > MAX_OVERRIDE_DAYS * DAY_MS) {
+    return {
+      ok: false,
+      message: `expiresAt must be an ISO 8601 date within the next ${MAX_OVERRIDE_DAYS} days`,
+    }
+  }
+
+  if (
+    body.reason !== undefined &&
+    (typeof body.reason !== 'string' || body.reason.length > MAX_REASON_LENGTH)
+  ) {
+    return {
+      ok: false,
+      message: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`,
+    }
+  }
+
+  return { ok: true, multiplier, expiresAt, reason: body.reason }
+}
+
+export async function getLimitOverride(
+  kv: KVNamespace,
+  userId: string,
+  cacheTtl?: number
+): Promise<LimitOverride | null> {
+  const override = await kv.get<LimitOverride>(overrideKey(userId), { type: 'json', cacheTtl })
+  return override && Date.parse(override.expiresAt) > Date.now() ? override : null
+}
+
+export async function setLimitOverride(
+  kv: KVNamespace,
+  userId: string,
+  override: LimitOverride
+): Promise<void> {
+  await kv.put(overrideKey(userId), JSON.stringify(override), {
+    expiration: Math.floor(Date.parse(override.expiresAt) / 1000),
+  })
+}
+
+export async function clearLimitOverride(kv: KVNamespace, userId: string): Promise<void> {
+  await kv.delete(overrideKey(userId))
+}
+
+/**
+ * Hono middleware setting `limitMultiplier` for the session user (after requireSession)
+ * A change can take up to a minute to reach every location
+ */
+export function loadLimitOverride() {
+  return createMiddleware<LimitOverrideEnv>(async (c, next) => {
+    const userId = c.get('userId')
+    if (userId) {
+      try {
+        const override = await getLimitOverride(
+          c.env.RATE_LIMITER,
+          userId,
+          OVERRIDE_CACHE_TTL_SECONDS
+        )
+        c.set('limitMultiplier', override?.multiplier ?? 1)
+      } catch (error) {
+        // Default limits rather than failing the request
+        console.error('Limit override read error:', error)
+      }
+    }
+
+    await next()
+  })
+}
@@ -0,0 +1,340 @@
+import { type JsonSchema, validateJson } from './json-schema'
+import {
+  type HeartRateZones,
+  WORKOUT_SCHEMA,
+  type WorkoutPayload,
+  type WorkoutSplit,
+} from './workouts'
+
+/**
+ * Workout stored by POST /api/workouts/sync: the analysis payload plus the `WorkoutModel`
+ * fields identifying it, keyed by its HealthKit UUID
+ */
+export interface StoredWorkout extends WorkoutPayload {
+  id: string
+  /** `HKWorkoutActivityType` name, e.g. "running" */
+  workoutType?: string
+  endDate?: string
+  sourceName?: string
+  sourceVersion?: string
+}
+
+export interface WorkoutQuery {
+  /** Workouts starting at or after this date */
+  from?: string
+  /** Workouts starting before this date */
+  to?: string
+  limit: number
+  offset: number
+  /** False leaves splits out, e.g. for summaries */
+  splits?: boolean
+}
+
+export type WorkoutSyncValidation =
+  | { ok: true; workouts: StoredWorkout[] }
+  | { ok: false; errors: string[] }
+
+export const MAX_SYNC_WORKOUTS = 50
+
+const HEALTHKIT_UUID_PATTERN =
+  /^[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}$/
+
+type WorkoutColumnField = Exclude<keyof StoredWorkout, 'id' | 'heartRateZones' | 'splits'>
+
+// One column per field, typed so that a field added to the payload needs a column too
+const WORKOUT_COLUMNS: Record<WorkoutColumnField, string> = {
+  workoutType: 'workout_type',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  duration: 'duration',
+  distance: 'distance',
+  totalEnergyBurned: 'total_energy_burned',
+  sourceName: 'source_name',
+  sourceVersion: 'source_version',
+  averageHeartRate: 'average_heart_rate',
+  minHeartRate: 'min_heart_rate',
+  maxHeartRate: 'max_heart_rate',
+  averagePace: 'average_pace',
+  minPace: 'min_pace',
+  maxPace: 'max_pace',
+  averageSpeed: 'average_speed',
+  maxSpeed: 'max_speed',
+  totalSteps: 'total_steps',
+  averageCadence: 'average_cadence',
+  strideLength: 'stride_length',
+  runningPower: 'running_power',
+  totalElevationAscent: 'total_elevation_ascent',
+  totalElevationDescent: 'total_elevation_descent',
+  groundContactTime: 'ground_contact_time',
+  groundContactTimeBalance: 'ground_contact_time_balance',
+  verticalOscillation: 'vertical_oscillation',
+  runningEfficiency: 'running_efficiency',
+  walkingSteadiness: 'walking_steadiness',
+  walkingAsymmetry: 'walking_asymmetry',
+  doubleSupportPercentage: 'double_support_percentage',
+  walkingSpeed: 'walking_speed',
+  stairAscentSpeed: 'stair_ascent_speed',
+  stairDescentSpeed: 'stair_descent_speed',
+  vo2Max: 'vo2_max',
+  temperature: 'temperature',
+  humidity: 'humidity',
+  movingTime: 'moving_time',
+  pausedTime: 'paused_time',
+}
+
+const ZONE_COLUMNS: Record<keyof HeartRateZones, string> = {
+  zone1: 'zone1',
+  zone2: 'zone2',
+  zone3: 'zone3',
+  zone4: 'zone4',
+  zone5: 'zone5',
+  maxHeartRate: 'zones_max_heart_rate',
+}
+
+const SPLIT_COLUMNS: Record<keyof WorkoutSplit, string> = {
+  kilometer: 'kilometer',
+  distance: 'distance',
+  time: 'time',
+  pace: 'pace',
+  averageHeartRate: 'average_heart_rate',
+  averagePower: 'average_power',
+  elevationGain: 'elevation_gain',
+  elevationLoss: 'elevation_loss',
+}
+
+const workoutColumns = Object.values(WORKOUT_COLUMNS)
+const zoneColumns = Object.values(ZONE_COLUMNS)
+const storedColumns = [...workoutColumns, ...zoneColumns]
+
+// ?1 user, ?2 id, ?3 sync time, then the stored columns in order
+const UPSERT_WORKOUT_SQL = `INSERT INTO workouts (user_id, id, synced_at, ${storedColumns.join(', ')})
+  VALUES (?1, ?2, ?3, ${storedColumns.map((_, index) => `?${index + 4}`).join(', ')})
+  ON CONFLICT (user_id, id) DO UPDATE SET
+  synced_at = excluded.synced_at, ${storedColumns.map((column) => `${column} = excluded.${column}`).join(', ')}`
+
+// The splits of a workout are inserted in one statement from their JSON array (?3)
+const INSERT_SPLITS_SQL = `INSERT INTO workout_splits
+  (user_id, workout_id, ${Object.values(SPLIT_COLUMNS).join(', ')})
+  SELECT ?1, ?2, ${Object.keys(SPLIT_COLUMNS)
+    .map((field) => `json_extract(value, '$.${field}')`)
+    .join(', ')}
+  FROM json_each(?3)`
+
+const SELECT_WORKOUT_COLUMNS = [
+  'id',
+  ...Object.entries(WORKOUT_COLUMNS).map(([field, column]) => `${column} AS ${field}`),
+  ...Object.entries(ZONE_COLUMNS).map(([field, column]) => `${column} AS zone_${field}`),
+].join(', ')
+
+const SELECT_SPLIT_COLUMNS = Object.entries(SPLIT_COLUMNS)
+  .map(([field, column]) => `${column} AS ${field}`)
+  .join(', ')
+
+const SYNCED_WORKOUT_SCHEMA: JsonSchema = {
+  ...WORKOUT_SCHEMA,
+  properties: {
+    ...WORKOUT_SCHEMA.properties,
+    id: { type: 'string', minLength: 36, maxLength: 36 },
+    workoutType: { type: 'string', minLength: 1, maxLength: 40 },
+    endDate: { type: 'string', minLength: 10, maxLength: 40 },
+    sourceName: { type: 'string', maxLength: 200 },
+    sourceVersion: { type: 'string', maxLength: 100 },
+  },
+  required: [...(WORKOUT_SCHEMA.required ?? []), 'id'],
+}
+
+const SYNC_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    workouts: {
+      type: 'array',
+      items: SYNCED_WORKOUT_SCHEMA,
+      minItems: 1,
+      maxItems: MAX_SYNC_WORKOUTS,
+    },
+  },
+  required: ['workouts'],
+  additionalProperties: false,
+}
+
+type Row = Record<string, unknown>
+
+// Absent fields are stored as NULL, read them back as absent
+function withoutNulls<T>(row: Row): T {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as T
+}
+
+function toStoredWorkout(row: Row, splits?: WorkoutSplit[]): StoredWorkout {
+  const fields: Row = {}
+  const zones: Row = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (key.startsWith('zone_')) {
+      zones[key.slice(5)] = value
+    } else {
+      fields[key] = value
+    }
+  }
+
+  const workout = withoutNulls<StoredWorkout>(fields)
+  if (zones.maxHeartRate !== null) {
+    workout.heartRateZones = withoutNulls<HeartRateZones>(zones)
+  }
+  if (splits) {
+    workout.splits = splits
+  }
+  return workout
+}
+
+/**
+ * Validate the body of POST /api/workouts/sync
+ * Dates are normalized to UTC so that stored workouts sort and filter by start date
+ */
+export function validateWorkoutSync(value: unknown): WorkoutSyncValidation {
+  const errors = validateJson(value, SYNC_REQUEST_SCHEMA).map((error) => error.replace(/^\$\./, ''))
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  const workouts: StoredWorkout[] = []
+  for (const [index, workout] of (value as { workouts: StoredWorkout[] }).workouts.entries()) {
+    const path = `workouts[${index}]`
+    if (!HEALTHKIT_UUID_PATTERN.test(workout.id)) {
+      return { ok: false, errors: [`${path}.id: must be a HealthKit UUID`] }
+    }
+    const dates = [workout.startDate, workout.endDate ?? workout.startDate].map(Date.parse)
+    if (dates.some(Number.isNaN)) {
+      return { ok: false, errors: [`${path}: startDate and endDate must be ISO 8601 dates`] }
+    }
+    const kilometers = new Set(workout.splits?.map((split) => split.kilometer))
+    if (kilometers.size !== (workout.splits?.length ?? 0)) {
+      return { ok: false, errors: [`${path}.splits: kilometers must be unique`] }
+    }
+
+    workouts.push({
+      ...workout,
+      id: workout.id.toUpperCase(),
+      startDate: new Date(dates[0]).toISOString(),
+      ...(workout.endDate ? { endDate: new Date(dates[1]).toISOString() } : {}),
+    })
+  }
+
+  return { ok: true, workouts }
+}
+
+/**
+ * Store workouts, replacing the ones already synced with the same HealthKit UUID
+ */
+export async function syncWorkouts(
+  db: D1Database,
+  userId: string,
+  workouts: StoredWorkout[]
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  await db.batch(
+    workouts.flatMap((workout) => [
+      db
+        .prepare(UPSERT_WORKOUT_SQL)
+        .bind(
+          userId,
+          workout.id,
+          now,
+          ...Object.keys(WORKOUT_COLUMNS).map(
+            (field) => workout[field as WorkoutColumnField] ?? null
+          ),
+          ...Object.keys(ZONE_COLUMNS).map(
+            (field) => workout.heartRateZones?.[field as keyof HeartRateZones] ?? null
+          )
+        ),
+      db
+        .prepare('DELETE FROM workout_splits WHERE user_id = ?1 AND workout_id = ?2')
+        .bind(userId, workout.id),
+      db.prepare(INSERT_SPLITS_SQL).bind(userId, workout.id, JSON.stringify(workout.splits ?? [])),
+    ])
+  )
+}
+
+async function loadSplits(
+  db: D1Database,
+  userId: string,
+  workoutIds: string[]
+): Promise<Map<string, WorkoutSplit[]>> {
+  const { results } = await db
+    .prepare(
+      `SELECT workout_id AS workoutId, ${SELECT_SPLIT_COLUMNS} FROM workout_splits
+       WHERE user_id = ?1 AND workout_id IN (SELECT value FROM json_each(?2))
+       ORDER BY workout_id, kilometer`
+    )
+    .bind(userId, JSON.stringify(workoutIds))
+    .all<Row>()
+
+  const splits = new Map<string, WorkoutSplit[]>(workoutIds.map((id) => [id, []]))
+  for (const { workoutId, ...split } of results) {
+    splits.get(workoutId as string)?.push(withoutNulls<WorkoutSplit>(split))
+  }
+  return splits
+}
+
+/**
+ * List a user's workouts, most recent first, with their splits unless `query.splits` is false
+ */
+export async function listWorkouts(
+  db: D1Database,
+  userId: string,
+  query: WorkoutQuery
+): Promise<StoredWorkout[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${SELECT_WORKOUT_COLUMNS} FROM workouts
+       WHERE user_id = ?1 AND (?2 IS NULL OR start_date >= ?2) AND (?3 IS NULL OR start_date < ?3)
+       ORDER BY start_date DESC, id
+       LIMIT ?4 OFFSET ?5`
+    )
+    .bind(userId, query.from ?? null, query.to ?? null, query.limit, query.offset)
+    .all<Row>()
+
+  if (query.splits === false) {
+    return results.map((row) => toStoredWorkout(row))
+  }
+
+  const splits = await loadSplits(
+    db,
+    userId,
+    results.map((row) => row.id as string)
+  )
+  return results.map((row) => toStoredWorkout(row, splits.get(row.id as string)))
+}
+
+/**
+ * Fetch one workout with its splits, or null if the user has no such workout
+ */
+export async function getWorkout(
+  db: D1Database,
+  userId: string,
+  workoutId: string
+): Promise<StoredWorkout | null> {
+  const row = await db
+    .prepare(`SELECT ${SELECT_WORKOUT_COLUMNS} FROM workouts WHERE user_id = ?1 AND id = ?2`)
+    .bind(userId, workoutId.toUpperCase())
+    .first<Row>()
+
+  if (!row) {
+    return null
+  }
+
+  const splits = await loadSplits(db, userId, [row.id as string])
+  return toStoredWorkout(row, splits.get(row.id as string))
+}
+
+/**
+ * Delete a user's whole workout history ("erase all my data")
+ * Returns the number of workouts deleted
+ */
+export async function deleteAllWorkouts(db: D1Database, userId: string): Promise<number> {
+  const [, deleted] = await db.batch([
+    db.prepare('DELETE FROM workout_splits WHERE user_id = ?1').bind(userId),
+    db.prepare('DELETE FROM workouts WHERE user_id = ?1').bind(userId),
+  ])
+
+  return deleted.meta.changes
+}
@@ -0,0 +1,279 @@
+import { type JsonSchema, validateJson } from './json-schema'
+
+/**
+ * Workout sent to /api/workouts/analyze, mirrors the app's `WorkoutModel` + `WorkoutMetrics`
+ * Units follow the app: meters, seconds, min/km, km/h, bpm, watts, ms, cm, percentages
+ */
+export interface WorkoutPayload {
+  startDate: string
+  duration: number
+  distance?: number
+  totalEnergyBurned?: number
+  averageHeartRate?: number
+  minHeartRate?: number
+  maxHeartRate?: number
+  heartRateZones?: HeartRateZones
+  averagePace?: number
+  minPace?: number
+  maxPace?: number
+  averageSpeed?: number
+  maxSpeed?: number
+  totalSteps?: number
+  averageCadence?: number
+  strideLength?: number
+  runningPower?: number
+  totalElevationAscent?: number
+  totalElevationDescent?: number
+  splits?: WorkoutSplit[]
+  groundContactTime?: number
+  groundContactTimeBalance?: number
+  verticalOscillation?: number
+  runningEfficiency?: number
+  walkingSteadiness?: number
+  walkingAsymmetry?: number
+  doubleSupportPercentage?: number
+  walkingSpeed?: number
+  stairAscentSpeed?: number
+  stairDescentSpeed?: number
+  vo2Max?: number
+  temperature?: number
+  humidity?: number
+  movingTime?: number
+  pausedTime?: number
+}
+
+export interface HeartRateZones {
+  zone1?: number
+  zone2?: number
+  zone3?: number
+  zone4?: number
+  zone5?: number
+  maxHeartRate: number
+}
+
+export interface WorkoutSplit {
+  kilometer: number
+  distance: number
+  time: number
+  pace: number
+  averageHeartRate?: number
+  averagePower?: number
+  elevationGain?: number
+  elevationLoss?: number
+}
+
+export type WorkoutValidation =
+  | { ok: true; workout: WorkoutPayload }
+  | { ok: false; errors: string[] }
+
+export const MAX_WORKOUT_SPLITS = 200
+
+const range = (minimum: number, maximum: number): JsonSchema => ({
+  type: 'number',
+  minimum,
+  maximum,
+})
+const percentage = range(0, 100)
+const heartRate = range(20, 250)
+const pace = range(1, 60)
+const speed = range(0, 100)
+const seconds = range(0, 7 * 24 * 3600)
+
+const SPLIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    kilometer: { type: 'integer', minimum: 1, maximum: 1000 },
+    distance: range(0, 2000),
+    time: seconds,
+    pace,
+    averageHeartRate: heartRate,
+    averagePower: range(0, 3000),
+    elevationGain: range(0, 2000),
+    elevationLoss: range(0, 2000),
+  },
+  required: ['kilometer', 'distance', 'time', 'pace'],
+  additionalProperties: false,
+}
+
+export const WORKOUT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    startDate: { type: 'string', minLength: 10, maxLength: 40 },
+    duration: seconds,
+    distance: range(0, 1_000_000),
+    totalEnergyBurned: range(0, 50_000),
+    averageHeartRate: heartRate,
+    minHeartRate: heartRate,
+    maxHeartRate: heartRate,
+    heartRateZones: {
+      type: 'object',
+      properties: {
+        zone1: seconds,
+        zone2: seconds,
+        zone3: seconds,
+        zone4: seconds,
+        zone5: seconds,
+        maxHeartRate: heartRate,
+      },
+      required: ['maxHeartRate'],
+      additionalProperties: false,
+    },
+    averagePace: pace,
+    minPace: pace,
+    maxPace: pace,
+    averageSpeed: speed,
+    maxSpeed: speed,
+    totalSteps: { type: 'integer', minimum: 0, maximum: 1_000_000 },
+    averageCadence: range(0, 300),
+    strideLength: range(0, 5),
+    runningPower: range(0, 3000),
+    totalElevationAscent: range(0, 20_000),
+    totalElevationDescent: range(0, 20_000),
+    splits: { type: 'array', items: SPLIT_SCHEMA, maxItems: MAX_WORKOUT_SPLITS },
+    groundContactTime: range(0, 2000),
+    groundContactTimeBalance: percentage,
+    verticalOscillation: range(0, 50),
+    runningEfficiency: percentage,
+    walkingSteadiness: percentage,
+    walkingAsymmetry: percentage,
+    doubleSupportPercentage: percentage,
+    walkingSpeed: speed,
+    stairAscentSpeed: speed,
+    stairDescentSpeed: speed,
+    vo2Max: range(0, 100),
+    temperature: range(-50, 60),
+    humidity: percentage,
+    movingTime: seconds,
+    pausedTime: seconds,
+  },
+  required: ['startDate', 'duration'],
+  additionalProperties: false,
+}
+
+/**
+ * Validate a client workout payload against `WORKOUT_SCHEMA`
+ */
+export function validateWorkout(value: unknown): WorkoutValidation {
+  const errors = validateJson(value, WORKOUT_SCHEMA).map((error) => error.replace(/^\$/, 'workout'))
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  const workout = value as WorkoutPayload
+  if (Number.isNaN(Date.parse(workout.startDate))) {
+    return { ok: false, errors: ['workout.startDate: must be an ISO 8601 date'] }
+  }
+
+  return { ok: true, workout }
+}
+
+function formatClock(totalSeconds: number): string {
+  const rounded = Math.round(totalSeconds)
+  const hours = Math.floor(rounded / 3600)
+  const minutes = Math.floor(rounded / 60) % 60
+  const secs = String(rounded % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+/** min/km as m:ss */
+function formatPace(minutesPerKm: number): string {
+  return formatClock(minutesPerKm * 60)
+}
+
+function round(value: number, digits = 0): string {
+  return value.toFixed(digits).replace(/\.0+$/, '')
+}
+
+/**
+ * Join the defined parts of a line, or return undefined when none is
+ */
+function line(label: string, parts: Array<string | false | undefined>): string | undefined {
+  const defined = parts.filter((part): part is string => typeof part === 'string')
+  return defined.length > 0 ? `${label}: ${defined.join(', ')}` : undefined
+}
+
+const has = (value: number | undefined): value is number => value !== undefined
+
+/**
+ * Compact, token-efficient text context for the coach prompt
+ * Only metrics present in the payload are written, splits become one short row each
+ */
+export function buildWorkoutContext(workout: WorkoutPayload): string {
+  const w = workout
+  const zones = w.heartRateZones
+
+  const lines = [
+    line(`Workout ${w.startDate.slice(0, 16).replace('T', ' ')}`, [
+      has(w.distance) && `${round(w.distance / 1000, 2)} km`,
+      formatClock(w.duration),
+      has(w.averagePace) && `pace ${formatPace(w.averagePace)}/km`,
+      has(w.minPace) && `best ${formatPace(w.minPace)}/km`,
+      has(w.maxPace) && `slowest ${formatPace(w.maxPace)}/km`,
+      has(w.averageSpeed) && `${round(w.averageSpeed, 1)} km/h`,
+      has(w.maxSpeed) && `max ${round(w.maxSpeed, 1)} km/h`,
+      has(w.totalEnergyBurned) && `${round(w.totalEnergyBurned)} kcal`,
+      has(w.movingTime) && `moving ${formatClock(w.movingTime)}`,
+      has(w.pausedTime) && `paused ${formatClock(w.pausedTime)}`,
+    ]),
+    line('HR bpm', [
+      has(w.averageHeartRate) && `avg ${round(w.averageHeartRate)}`,
+      has(w.minHeartRate) && `min ${round(w.minHeartRate)}`,
+      has(w.maxHeartRate) && `max ${round(w.maxHeartRate)}`,
+    ]),
+    zones &&
+      line(`HR zones min (HRmax ${round(zones.maxHeartRate)})`, [
+        has(zones.zone1) && `Z1 ${round(zones.zone1 / 60)}`,
+        has(zones.zone2) && `Z2 ${round(zones.zone2 / 60)}`,
+        has(zones.zone3) && `Z3 ${round(zones.zone3 / 60)}`,
+        has(zones.zone4) && `Z4 ${round(zones.zone4 / 60)}`,
+        has(zones.zone5) && `Z5 ${round(zones.zone5 / 60)}`,
+      ]),
+    line('Running form', [
+      has(w.averageCadence) && `cadence ${round(w.averageCadence)} spm`,
+      has(w.totalSteps) && `${w.totalSteps} steps`,
+      has(w.strideLength) && `stride ${round(w.strideLength, 2)} m`,
+      has(w.runningPower) && `power ${round(w.runningPower)} W`,
+      has(w.groundContactTime) && `GCT ${round(w.groundContactTime)} ms`,
+      has(w.groundContactTimeBalance) && `GCT balance ${round(w.groundContactTimeBalance, 1)}%`,
+      has(w.verticalOscillation) && `vertical oscillation ${round(w.verticalOscillation, 1)} cm`,
+      has(w.runningEfficiency) && `efficiency ${round(w.runningEfficiency, 1)}%`,
+    ]),
+    line('Elevation m', [
+      has(w.totalElevationAscent) && `+${round(w.totalElevationAscent)}`,
+      has(w.totalElevationDescent) && `-${round(w.totalElevationDescent)}`,
+    ]),
+    line('Fitness', [has(w.vo2Max) && `VO2max ${round(w.vo2Max, 1)} ml/kg/min`]),
+    line('Mobility', [
+      has(w.walkingSteadiness) && `steadiness ${round(w.walkingSteadiness, 1)}%`,
+      has(w.walkingAsymmetry) && `asymmetry ${round(w.walkingAsymmetry, 1)}%`,
+      has(w.doubleSupportPercentage) && `double support ${round(w.doubleSupportPercentage, 1)}%`,
+      has(w.walkingSpeed) && `walking ${round(w.walkingSpeed, 1)} km/h`,
+      has(w.stairAscentSpeed) && `stairs up ${round(w.stairAscentSpeed, 1)} km/h`,
+      has(w.stairDescentSpeed) && `stairs down ${round(w.stairDescentSpeed, 1)} km/h`,
+    ]),
+    line('Weather', [
+      has(w.temperature) && `${round(w.temperature)}°C`,
+      has(w.humidity) && `${round(w.humidity)}% humidity`,
+    ]),
+  ]
+
+  if (w.splits && w.splits.length > 0) {
+    lines.push('Splits (km pace [HR] [W] [+/-m], partial splits with their distance):')
+    for (const split of w.splits) {
+      const columns = [
+        split.kilometer,
+        formatPace(split.pace),
+        // Time is redundant with the pace on full kilometers
+        Math.abs(split.distance - 1000) > 1 &&
+          `(${round(split.distance)}m in ${formatClock(split.time)})`,
+        has(split.averageHeartRate) && `${round(split.averageHeartRate)}bpm`,
+        has(split.averagePower) && `${round(split.averagePower)}W`,
+        (has(split.elevationGain) || has(split.elevationLoss)) &&
+          `+${round(split.elevationGain ?? 0)}/-${round(split.elevationLoss ?? 0)}m`,
+      ]
+      lines.push(columns.filter((column) => column !== false).join(' '))
+    }
+  }
+
+  return lines.filter((text): text is string => text !== undefined).join('\n')
+}
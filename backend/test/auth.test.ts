@@ -0,0 +1,237 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { canonicalRequest, signRequest } from '../src/request-signing'
+import { type MockLLM, startMockLLM } from './helpers/mock-llm'
+import { ADMIN_SECRET, APP_SECRET, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock)
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+async function registration(userId: string): Promise<Response> {
+  return worker.fetch('/api/register', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await worker.session(userId)}` },
+  })
+}
+
+async function register(userId: string): Promise<string> {
+  const response = await registration(userId)
+  expect(response.status).toBe(201)
+  const { signingKey } = (await response.json()) as { signingKey: string }
+  return signingKey
+}
+
+async function signedHeaders(
+  key: string,
+  method: string,
+  path: string,
+  options: { timestamp?: number; nonce?: string } = {}
+): Promise<Record<string, string>> {
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000))
+  const nonce = options.nonce ?? crypto.randomUUID().replaceAll('-', '')
+  const canonical = await canonicalRequest(method, path, timestamp, nonce, new ArrayBuffer(0))
+  return {
+    'X-Signature': await signRequest(key, canonical),
+    'X-Signature-Timestamp': timestamp,
+    'X-Signature-Nonce': nonce,
+  }
+}
+
+describe('sessions', () => {
+  it('issues a bearer token for a valid app key', async () => {
+    const response = await worker.fetch('/api/session', {
+      method: 'POST',
+      headers: { 'X-App-Key': APP_SECRET, 'X-User-ID': 'auth-user' },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ tokenType: 'Bearer', expiresIn: 3600 })
+  })
+
+  it('rejects a wrong app key', async () => {
+    const response = await worker.fetch('/api/session', {
+      method: 'POST',
+      headers: { 'X-App-Key': 'wrong', 'X-User-ID': 'auth-user' },
+    })
+
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects a malformed user ID', async () => {
+    const response = await worker.fetch('/api/session', {
+      method: 'POST',
+      headers: { 'X-App-Key': APP_SECRET, 'X-User-ID': 'not a valid id!' },
+    })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('requires a session on API routes', async () => {
+    const response = await worker.fetch('/api/stats')
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'missing_session' })
+  })
+
+  it('rejects a tampered token', async () => {
+    const token = await worker.session('auth-user')
+    const response = await worker.fetch('/api/stats', {
+      headers: { Authorization: `Bearer ${token.slice(0, -2)}xx` },
+    })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'invalid_session' })
+  })
+
+  it('rejects an X-User-ID that does not match the session', async () => {
+    const response = await worker.fetch('/api/stats', {
+      headers: {
+        Authorization: `Bearer ${await worker.session('auth-user')}`,
+        'X-User-ID': 'someone-else',
+      },
+    })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'user_mismatch' })
+  })
+})
+
+describe('request signing', () => {
+  it('issues the install key only once', async () => {
+    await register('signing-once')
+    const again = await registration('signing-once')
+
+    expect(again.status).toBe(409)
+    expect(await again.json()).toMatchObject({ code: 'already_registered' })
+  })
+
+  it('issues one key to concurrent registrations', async () => {
+    const responses = await Promise.all([
+      registration('signing-concurrent'),
+      registration('signing-concurrent'),
+    ])
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409])
+  })
+
+  it('registers the session user only', async () => {
+    const response = await worker.fetch('/api/register', {
+      method: 'POST',
+      headers: { 'X-App-Key': APP_SECRET, 'X-User-ID': 'signing-no-session' },
+    })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'missing_session' })
+  })
+
+  it('rotates the key with a request signed by the current one', async () => {
+    const key = await register('signing-rotate')
+    const token = await worker.session('signing-rotate')
+
+    const rotated = await worker.fetch('/api/register/rotate', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(await signedHeaders(key, 'POST', '/api/register/rotate')),
+      },
+    })
+    expect(rotated.status).toBe(201)
+    const { signingKey } = (await rotated.json()) as { signingKey: string }
+
+    const withOld = await worker.fetch('/api/conversations', {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(await signedHeaders(key, 'GET', '/api/conversations')),
+      },
+    })
+    expect(await withOld.json()).toMatchObject({ code: 'invalid_signature' })
+
+    const withNew = await worker.fetch('/api/conversations', {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(await signedHeaders(signingKey, 'GET', '/api/conversations')),
+      },
+    })
+    expect(withNew.status).toBe(200)
+  })
+
+  it('lets the user register again once an operator revoked the key', async () => {
+    await register('signing-revoked')
+
+    const revoked = await worker.fetch('/admin/users/signing-revoked/signing-key', {
+      method: 'DELETE',
+      headers: { 'X-Admin-Key': ADMIN_SECRET },
+    })
+
+    expect(revoked.status).toBe(204)
+    expect((await registration('signing-revoked')).status).toBe(201)
+  })
+
+  it('refuses unsigned requests on signed routes', async () => {
+    await register('signing-missing')
+    const token = await worker.session('signing-missing')
+
+    for (const [method, path] of [
+      ['GET', '/api/conversations'],
+      ['GET', '/api/conversations/some-conversation'],
+      ['DELETE', '/api/conversations/some-conversation'],
+    ]) {
+      const response = await worker.fetch(path, {
+        method,
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(response.status).toBe(401)
+      expect(await response.json()).toMatchObject({ code: 'missing_signature' })
+    }
+  })
+
+  it('accepts a signed request once and rejects its replay', async () => {
+    const key = await register('signing-replay')
+    const token = await worker.session('signing-replay')
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      ...(await signedHeaders(key, 'GET', '/api/conversations')),
+    }
+
+    const first = await worker.fetch('/api/conversations', { headers })
+    expect(first.status).toBe(200)
+    expect(await first.json()).toMatchObject({ conversations: [] })
+
+    const replay = await worker.fetch('/api/conversations', { headers })
+    expect(replay.status).toBe(401)
+    expect(await replay.json()).toMatchObject({ code: 'replayed_nonce' })
+  })
+
+  it('rejects a stale timestamp and a signature made with another key', async () => {
+    const key = await register('signing-invalid')
+    const token = await worker.session('signing-invalid')
+
+    const stale = await worker.fetch('/api/conversations', {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(await signedHeaders(key, 'GET', '/api/conversations', {
+          timestamp: Math.floor(Date.now() / 1000) - 3600,
+        })),
+      },
+    })
+    expect(await stale.json()).toMatchObject({ code: 'stale_signature' })
+
+    const forged = await worker.fetch('/api/conversations', {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(await signedHeaders('not-the-install-key', 'GET', '/api/conversations')),
+      },
+    })
+    expect(await forged.json()).toMatchObject({ code: 'invalid_signature' })
+  })
+})
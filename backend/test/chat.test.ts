@@ -0,0 +1,353 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  answerFrames,
+  contentFrame,
+  DONE_FRAME,
+  type MockLLM,
+  splitIntoPieces,
+  sseFrame,
+  startMockLLM,
+  streamReply,
+} from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock, {
+    PROVIDER_CHAIN: 'openrouter,openai',
+    OPENAI_API_KEY: 'test-openai-key',
+    // Stop at once on a disconnect, resumption has its own tests
+    STREAM_RESUME_GRACE_SECONDS: '0',
+  })
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const request = { model: CHAT_MODEL, systemPrompt: 'Coach', prompt: 'Comment était ma course ?' }
+const USAGE = { prompt_tokens: 20, completion_tokens: 3, cost: 0.00042 }
+// Served by OpenRouter then OpenAI in this file's provider chain
+const FAILOVER_MODEL = 'openai/gpt-5'
+
+function chat(userId: string, query = '', body: unknown = request) {
+  return worker.post(`/api/chat${query}`, userId, body)
+}
+
+describe('validation', () => {
+  it('rejects a request without a prompt', async () => {
+    const response = await chat('validation-user', '', { model: CHAT_MODEL })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ error: 'Bad Request' })
+  })
+
+  it('rejects a malformed JSON body', async () => {
+    const response = await worker.fetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${await worker.session('validation-user')}`,
+        'Content-Type': 'application/json',
+      },
+      body: '{"model": ',
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ message: 'Request body must be valid JSON' })
+  })
+
+  it('rejects an unknown format', async () => {
+    const response = await chat('validation-user', '?format=xml')
+
+    expect(response.status).toBe(400)
+    expect(mock.completions).toHaveLength(0)
+  })
+
+  it('rejects a prompt over the length limit', async () => {
+    const response = await chat('validation-user', '', { ...request, prompt: 'a'.repeat(2001) })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ message: expect.stringContaining('too long') })
+  })
+})
+
+describe('stream re-encoding', () => {
+  const parts = ['Bonne ', 'séance', ' !']
+
+  it('re-encodes simplified SSE from frames split across reads', async () => {
+    mock.enqueue(streamReply(splitIntoPieces(answerFrames(parts, USAGE), 7)))
+
+    const response = await chat('sse-user', '?format=sse')
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(await response.text()).toBe(
+      `${parts.map((content, index) => `id: ${index + 1}\ndata: ${JSON.stringify({ content })}\n\n`).join('')}event: done\ndata: ${JSON.stringify({ done: true, usage: { ...USAGE, total_tokens: 23 } })}\n\n`
+    )
+    expect(mock.completions[0]).toMatchObject({
+      host: 'openrouter.ai',
+      path: '/api/v1/chat/completions',
+      body: { model: 'anthropic/claude-haiku-4.5', stream: true, usage: { include: true } },
+    })
+  })
+
+  it('passes OpenAI frames through unchanged, with event IDs, and ends with the usage', async () => {
+    const frames = answerFrames(parts, USAGE)
+    mock.enqueue(streamReply(frames))
+
+    const response = await worker.post('/api/chat/stream', 'openai-user', request)
+
+    const content = frames.slice(0, parts.length)
+    const usage = sseFrame({ choices: [], usage: { ...USAGE, total_tokens: 23 } })
+    expect(await response.text()).toBe(
+      `${content.map((frame, index) => `id: ${index + 1}\n${frame}`).join('')}${usage}${DONE_FRAME}`
+    )
+  })
+
+  it('ends NDJSON with the usage block', async () => {
+    mock.enqueue(streamReply(answerFrames(parts, USAGE)))
+
+    const response = await chat('ndjson-user', '?format=ndjson')
+    const lines = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    expect(lines).toEqual([
+      ...parts.map((content) => ({ content })),
+      { done: true, usage: { ...USAGE, total_tokens: 23 } },
+    ])
+  })
+
+  it('collects a JSON answer', async () => {
+    mock.enqueue(streamReply(answerFrames(parts, USAGE)))
+
+    const response = await chat('json-user', '', { ...request, stream: false })
+
+    expect(await response.json()).toMatchObject({
+      response: 'Bonne séance !',
+      model: CHAT_MODEL,
+      usage: USAGE,
+    })
+  })
+
+  it('skips malformed frames', async () => {
+    mock.enqueue(
+      streamReply([
+        contentFrame('Bonne '),
+        sseFrame('{"choices": [{"delta": '),
+        contentFrame('séance'),
+        ...answerFrames([], USAGE),
+      ])
+    )
+
+    const response = await chat('malformed-user', '', { ...request, stream: false })
+
+    expect(await response.json()).toMatchObject({ response: 'Bonne séance' })
+  })
+})
+
+describe('stored conversations', () => {
+  it('refuses a conversationId on an unsigned request', async () => {
+    const response = await chat('thread-user', '?format=json', {
+      ...request,
+      conversationId: 'unsigned-thread',
+    })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ code: 'missing_signature' })
+    expect(mock.completions).toHaveLength(0)
+  })
+
+  it('keeps the thread of a signed request', async () => {
+    mock.enqueue(streamReply(answerFrames(['Bien'])))
+    const body = { ...request, stream: false, conversationId: 'signed-thread' }
+
+    const response = await worker.signed('POST', '/api/chat', 'thread-user', body)
+    expect(response.status).toBe(200)
+
+    await vi.waitFor(async () => {
+      const stored = await worker.signed('GET', '/api/conversations/signed-thread', 'thread-user')
+      expect(stored.status).toBe(200)
+    })
+  })
+})
+
+describe('structured output', () => {
+  it('requires keys named like object prototype members', async () => {
+    const responseFormat = {
+      type: 'json_schema',
+      name: 'summary',
+      schema: {
+        type: 'object',
+        properties: { toString: { type: 'string' } },
+        required: ['toString'],
+      },
+    }
+    // The first answer and its repair both leave the key out
+    mock.enqueue(streamReply(answerFrames(['{}'])), streamReply(answerFrames(['{}'])))
+
+    const response = await chat('structured-user', '?format=json', { ...request, responseFormat })
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toMatchObject({
+      code: 'invalid_structured_output',
+      errors: ['$.toString: is required'],
+    })
+  })
+})
+
+describe('response cache', () => {
+  it('never caches the coaching templates, built from the user data', async () => {
+    const coaching = {
+      model: CHAT_MODEL,
+      templateId: 'single-workout',
+      variables: { context: 'Course de 10 km en 50 min' },
+      prompt: 'Comment était ma course ?',
+    }
+    mock.enqueue(streamReply(answerFrames(['Bien'])), streamReply(answerFrames(['Bien'])))
+
+    for (const userId of ['cache-user', 'other-cache-user']) {
+      const response = await chat(userId, '?format=json', coaching)
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-Cache')).toBeNull()
+    }
+    expect(mock.completions).toHaveLength(2)
+  })
+})
+
+describe('upstream failures', () => {
+  it('ends a stream cut mid-answer with an upstream_error', async () => {
+    mock.enqueue({ kind: 'stream', pieces: [contentFrame('Bonne ')], disconnect: true })
+
+    const response = await chat('disconnect-user', '?format=ndjson')
+
+    expect(await response.text()).toBe(
+      `${JSON.stringify({ content: 'Bonne ' })}\n${JSON.stringify({
+        done: false,
+        error: { code: 'upstream_error', message: 'AI response was interrupted' },
+      })}\n`
+    )
+  })
+
+  it('answers 502 when a JSON generation is cut', async () => {
+    mock.enqueue({ kind: 'stream', pieces: [contentFrame('Bonne ')], disconnect: true })
+
+    const response = await chat('disconnect-user', '', { ...request, stream: false })
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toMatchObject({ code: 'upstream_error' })
+  })
+
+  it('fails over to the next provider on a 500', async () => {
+    mock.enqueue({ kind: 'error', status: 500 }, streamReply(answerFrames(['Relais'])))
+
+    const response = await chat('failover-user', '', {
+      ...request,
+      model: FAILOVER_MODEL,
+      stream: false,
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-Provider')).toBe('openai')
+    expect(await response.json()).toMatchObject({ response: 'Relais' })
+    expect(mock.completions.map((completion) => completion.host)).toEqual([
+      'openrouter.ai',
+      'api.openai.com',
+    ])
+  })
+
+  it('gives the premium quota back when no provider could start the generation', async () => {
+    mock.enqueue({ kind: 'error', status: 429 }, { kind: 'error', status: 429 })
+
+    const response = await chat('quota-release-user', '', { ...request, model: FAILOVER_MODEL })
+    expect(response.status).toBe(503)
+
+    await vi.waitFor(async () => {
+      const stats = await worker.fetch('/api/stats', {
+        headers: { Authorization: `Bearer ${await worker.session('quota-release-user')}` },
+      })
+      const { premiumQuotas } = (await stats.json()) as {
+        premiumQuotas: Array<{ model: string; used: number }>
+      }
+      expect(premiumQuotas).toContainEqual(
+        expect.objectContaining({ model: FAILOVER_MODEL, used: 0 })
+      )
+    })
+  })
+
+  it('answers 503 once every provider is rate limited', async () => {
+    mock.enqueue({ kind: 'error', status: 429 }, { kind: 'error', status: 429 })
+
+    const response = await chat('upstream-429-user', '', { ...request, model: FAILOVER_MODEL })
+
+    expect(response.status).toBe(503)
+    expect(await response.json()).toMatchObject({
+      code: 'upstream_unavailable',
+      provider: 'openai',
+      upstreamStatus: 429,
+    })
+    expect(mock.completions).toHaveLength(2)
+  })
+
+  it('does not fail over on a client error', async () => {
+    mock.enqueue({ kind: 'error', status: 400 })
+
+    const response = await chat('upstream-400-user', '', { ...request, model: FAILOVER_MODEL })
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toMatchObject({ code: 'upstream_error', upstreamStatus: 400 })
+    expect(mock.completions).toHaveLength(1)
+  })
+})
+
+describe('client disconnects', () => {
+  it('aborts the upstream request and records the partial generation', async () => {
+    const parts = Array.from({ length: 10 }, (_, index) => `mot${index} `)
+    mock.enqueue(streamReply(answerFrames(parts, USAGE), { delayMs: 200 }))
+
+    const response = await chat('cancel-user', '?format=ndjson')
+    const reader = response.body?.getReader()
+    const first = await reader?.read()
+    await reader?.cancel()
+
+    expect(new TextDecoder().decode(first?.value)).toContain('mot0')
+    await vi.waitFor(() => expect(mock.completions[0].aborted).toBe(true), { timeout: 1000 })
+
+    const { properties } = await mock.waitForCapture((event) => event.distinct_id === 'cancel-user')
+    expect(properties).toMatchObject({
+      cancelled: true,
+      $ai_output: expect.stringMatching(/^mot# /),
+    })
+    expect((properties.$ai_output as string).length).toBeLessThan(parts.join('').length)
+    expect(properties.$ai_output_tokens).toBeGreaterThan(0)
+    expect(properties).not.toHaveProperty('error')
+  })
+})
+
+describe('rate limiting', () => {
+  it('limits chat bursts to 10 requests a minute', async () => {
+    for (let i = 0; i < 10; i++) {
+      const response = await chat('burst-user', '?format=json')
+      expect(response.status).toBe(200)
+      await response.body?.cancel()
+    }
+
+    const limited = await chat('burst-user', '?format=json')
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('RateLimit-Policy')).toBe('10;w=60')
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0')
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(await limited.json()).toMatchObject({ rule: 'chat-burst', limit: 10 })
+    expect(mock.completions).toHaveLength(10)
+  })
+})
@@ -0,0 +1,30 @@
+import { execFile } from 'node:child_process'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { promisify } from 'node:util'
+import type { TestProject } from 'vitest/node'
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    /** Worker bundled by wrangler, shared by every test file */
+    workerScriptPath: string
+  }
+}
+
+const run = promisify(execFile)
+
+/**
+ * Bundle src/index.ts once with wrangler (same build as a deploy)
+ */
+export default async function setup(project: TestProject) {
+  const outdir = await mkdtemp(join(tmpdir(), 'healthapp-worker-'))
+  await run('npx', ['wrangler', 'deploy', '--dry-run', '--outdir', outdir], {
+    env: { ...process.env, CI: '1', WRANGLER_SEND_METRICS: 'false' },
+  })
+  project.provide('workerScriptPath', join(outdir, 'index.js'))
+
+  return async () => {
+    await rm(outdir, { recursive: true, force: true })
+  }
+}
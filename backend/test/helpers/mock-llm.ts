@@ -0,0 +1,234 @@
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { gunzipSync } from 'node:zlib'
+
+/**
+ * Next answer of the mock to a chat completion request
+ * `pieces` are written one by one (with `delayMs` between them) so they reach the Worker as
+ * separate reads; `disconnect` drops the socket after the last piece instead of ending the body
+ */
+export type MockReply =
+  | { kind: 'stream'; pieces: string[]; delayMs?: number; disconnect?: boolean }
+  | { kind: 'json'; body: unknown }
+  | { kind: 'error'; status: number; body?: string }
+
+export interface RecordedRequest {
+  /** Host the Worker called (every outbound request of the Worker lands here) */
+  host: string
+  path: string
+  headers: IncomingHttpHeaders
+  body: unknown
+  /** The connection closed before the reply was complete, by either side */
+  aborted: boolean
+}
+
+export interface CapturedEvent {
+  event: string
+  distinct_id?: string
+  properties: Record<string, unknown>
+}
+
+export interface MockLLM {
+  /** `host:port` to route the Worker's outbound requests to */
+  address: string
+  completions: RecordedRequest[]
+  captures: CapturedEvent[]
+  /** Queue replies, served in order; an empty queue streams `DEFAULT_ANSWER` */
+  enqueue(...replies: MockReply[]): void
+  /** Wait for a PostHog event (captures happen in `waitUntil`, after the response) */
+  waitForCapture(predicate?: (event: CapturedEvent) => boolean): Promise<CapturedEvent>
+  reset(): void
+  close(): Promise<void>
+}
+
+export const DEFAULT_ANSWER = 'Bonne séance !'
+export const DONE_FRAME = 'data: [DONE]\n\n'
+
+const CAPTURE_TIMEOUT_MS = 5000
+
+export function sseFrame(value: unknown): string {
+  return `data: ${typeof value === 'string' ? value : JSON.stringify(value)}\n\n`
+}
+
+export function contentFrame(content: string): string {
+  return sseFrame({ choices: [{ index: 0, delta: { content } }] })
+}
+
+export function usageFrame(usage: {
+  prompt_tokens: number
+  completion_tokens: number
+  cost?: number
+}): string {
+  return sseFrame({
+    choices: [],
+    usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens },
+  })
+}
+
+/**
+ * Frames of a complete answer: one content frame per part, a usage block, then `[DONE]`
+ */
+export function answerFrames(
+  parts: string[],
+  usage = { prompt_tokens: 12, completion_tokens: parts.length, cost: 0.0001 }
+): string[] {
+  return [...parts.map(contentFrame), usageFrame(usage), DONE_FRAME]
+}
+
+/**
+ * Frames of a step asking for tool calls, each call's arguments cut in two deltas
+ */
+export function toolCallFrames(calls: Array<{ id: string; name: string; arguments: unknown }>) {
+  const deltas = calls.flatMap((call, index) => {
+    const args = JSON.stringify(call.arguments)
+    const half = Math.floor(args.length / 2)
+    return [
+      {
+        index,
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: args.slice(0, half) },
+      },
+      { index, function: { arguments: args.slice(half) } },
+    ]
+  })
+  return [
+    ...deltas.map((toolCall) =>
+      sseFrame({ choices: [{ index: 0, delta: { tool_calls: [toolCall] } }] })
+    ),
+    sseFrame({ choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] }),
+    usageFrame({ prompt_tokens: 40, completion_tokens: 8 }),
+    DONE_FRAME,
+  ]
+}
+
+/**
+ * Re-cut frames into pieces of `size` bytes, so SSE lines straddle reads
+ */
+export function splitIntoPieces(frames: string[], size: number): string[] {
+  const body = frames.join('')
+  const pieces: string[] = []
+  for (let offset = 0; offset < body.length; offset += size) {
+    pieces.push(body.slice(offset, offset + size))
+  }
+  return pieces
+}
+
+export function streamReply(frames: string[], options: { delayMs?: number } = {}): MockReply {
+  return { kind: 'stream', pieces: frames, ...options }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function writeStream(res: ServerResponse, reply: Extract<MockReply, { kind: 'stream' }>) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+  res.flushHeaders()
+
+  for (const piece of reply.pieces) {
+    if (res.destroyed) {
+      return
+    }
+    res.write(piece)
+    await sleep(reply.delayMs ?? 5)
+  }
+
+  if (reply.disconnect) {
+    res.socket?.destroy()
+  } else {
+    res.end()
+  }
+}
+
+/**
+ * Start an OpenAI-compatible chat completion server that also stands in for PostHog `/batch/`
+ */
+export async function startMockLLM(): Promise<MockLLM> {
+  const completions: RecordedRequest[] = []
+  const captures: CapturedEvent[] = []
+  let replies: MockReply[] = []
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    let raw = Buffer.concat(chunks)
+    if (req.headers['content-encoding'] === 'gzip') {
+      raw = gunzipSync(raw)
+    }
+    const body = raw.length > 0 ? JSON.parse(raw.toString('utf8')) : undefined
+    const path = req.url ?? '/'
+
+    if (path.startsWith('/batch')) {
+      captures.push(...(body as { batch: CapturedEvent[] }).batch)
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end('{"status":1}')
+      return
+    }
+
+    const recorded: RecordedRequest = {
+      host: String(req.headers.host),
+      path,
+      headers: req.headers,
+      body,
+      aborted: false,
+    }
+    completions.push(recorded)
+    res.on('close', () => {
+      recorded.aborted = !res.writableFinished
+    })
+
+    const reply = replies.shift() ?? streamReply(answerFrames([DEFAULT_ANSWER]))
+    switch (reply.kind) {
+      case 'stream':
+        await writeStream(res, reply)
+        return
+      case 'json':
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(reply.body))
+        return
+      case 'error':
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' })
+        res.end(reply.body ?? JSON.stringify({ error: { message: `Mock HTTP ${reply.status}` } }))
+        return
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    address: `127.0.0.1:${port}`,
+    completions,
+    captures,
+
+    enqueue(...next) {
+      replies.push(...next)
+    },
+
+    async waitForCapture(predicate = () => true) {
+      const deadline = Date.now() + CAPTURE_TIMEOUT_MS
+      while (Date.now() < deadline) {
+        const event = captures.find(predicate)
+        if (event) {
+          return event
+        }
+        await sleep(25)
+      }
+      throw new Error('No matching PostHog capture received')
+    },
+
+    reset() {
+      replies = []
+      completions.length = 0
+      captures.length = 0
+    },
+
+    close() {
+      server.closeAllConnections()
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      )
+    },
+  }
+}
@@ -0,0 +1,161 @@
+import { readdir, readFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import type { Readable } from 'node:stream'
+import { Miniflare } from 'miniflare'
+import { inject } from 'vitest'
+import { canonicalRequest, signRequest } from '../../src/request-signing'
+import type { MockLLM } from './mock-llm'
+
+export const APP_SECRET = 'test-app-secret'
+export const SESSION_SIGNING_KEYS = 'test:0123456789abcdef0123456789abcdef'
+export const ADMIN_SECRET = 'test-admin-secret-0123456789abcdef'
+export const CHAT_MODEL = 'anthropic/claude-haiku-4.5'
+
+export interface TestWorker {
+  fetch(path: string, init?: RequestInit): Promise<Response>
+  /** Session token for `userId`, from POST /api/session */
+  session(userId: string): Promise<string>
+  /** POST a JSON body with a session for `userId` */
+  post(
+    path: string,
+    userId: string,
+    body: unknown,
+    headers?: Record<string, string>
+  ): Promise<Response>
+  /** Request signed with `userId`'s install key, registered on first use; JSON `body` */
+  signed(method: string, path: string, userId: string, body?: unknown): Promise<Response>
+  dispose(): Promise<void>
+}
+
+const MIGRATIONS_DIR = 'migrations'
+
+async function applyMigrations(mf: Miniflare) {
+  const db = await mf.getD1Database('DB')
+  const files = (await readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql')).sort()
+  for (const file of files) {
+    await db.exec(
+      (await readFile(join(MIGRATIONS_DIR, file), 'utf8'))
+        .split('\n')
+        .filter((line) => !line.trim().startsWith('--'))
+        .join(' ')
+    )
+  }
+}
+
+/**
+ * Run the bundled Worker in workerd with in-memory KV, Durable Object and D1 storage
+ * Every outbound fetch (OpenRouter, OpenAI, PostHog, ...) reaches `mock`, Host header intact
+ * Set TEST_WORKER_LOGS=1 to see the Worker's console output
+ */
+export async function startTestWorker(
+  mock: MockLLM,
+  vars: Record<string, string> = {}
+): Promise<TestWorker> {
+  const scriptPath = inject('workerScriptPath')
+  const mf = new Miniflare({
+    // Listed explicitly: the bundle keeps dynamic imports Miniflare cannot follow
+    modules: [{ type: 'ESModule', path: scriptPath }],
+    modulesRoot: dirname(scriptPath),
+    compatibilityDate: '2024-11-01',
+    compatibilityFlags: ['nodejs_compat'],
+    bindings: {
+      OPENROUTER_API_KEY: 'test-openrouter-key',
+      APP_SECRET,
+      SESSION_SIGNING_KEYS,
+      ADMIN_SECRET,
+      PROVIDER_CHAIN: 'openrouter',
+      POSTHOG_API_KEY: 'phc_test',
+      POSTHOG_HOST: 'http://posthog.test',
+      ...vars,
+    },
+    kvNamespaces: ['RATE_LIMITER'],
+    durableObjects: {
+      RATE_LIMITER_DO: { className: 'RateLimiterDurableObject', useSQLite: true },
+      GENERATION_BUFFER: { className: 'GenerationBufferDurableObject', useSQLite: true },
+    },
+    d1Databases: ['DB'],
+    outboundService: { external: { address: mock.address, http: {} } },
+    handleRuntimeStdio(stdout: Readable, stderr: Readable) {
+      if (process.env.TEST_WORKER_LOGS) {
+        stdout.pipe(process.stdout)
+        stderr.pipe(process.stderr)
+      }
+    },
+  })
+  await mf.ready
+  await applyMigrations(mf)
+
+  const fetchWorker = async (path: string, init?: RequestInit) =>
+    (await mf.dispatchFetch(`http://localhost${path}`, init as never)) as unknown as Response
+
+  const session = async (userId: string) => {
+    const response = await fetchWorker('/api/session', {
+      method: 'POST',
+      headers: { 'X-App-Key': APP_SECRET, 'X-User-ID': userId },
+    })
+    const { token } = (await response.json()) as { token: string }
+    return token
+  }
+
+  const installKeys = new Map<string, Promise<string>>()
+  const installKey = (userId: string) => {
+    if (!installKeys.has(userId)) {
+      installKeys.set(
+        userId,
+        session(userId)
+          .then((token) =>
+            fetchWorker('/api/register', {
+              method: 'POST',
+              headers: { Authorization: `Bearer ${token}` },
+            })
+          )
+          .then((response) => response.json())
+          .then((body) => (body as { signingKey: string }).signingKey)
+      )
+    }
+    return installKeys.get(userId) as Promise<string>
+  }
+
+  return {
+    fetch: fetchWorker,
+    session,
+
+    async post(path, userId, body, headers = {}) {
+      return fetchWorker(path, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await session(userId)}`,
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(body),
+      })
+    },
+
+    async signed(method, path, userId, body) {
+      const payload = body === undefined ? '' : JSON.stringify(body)
+      const timestamp = String(Math.floor(Date.now() / 1000))
+      const nonce = crypto.randomUUID().replaceAll('-', '')
+      const canonical = await canonicalRequest(
+        method,
+        path,
+        timestamp,
+        nonce,
+        new TextEncoder().encode(payload).buffer as ArrayBuffer
+      )
+      return fetchWorker(path, {
+        method,
+        headers: {
+          Authorization: `Bearer ${await session(userId)}`,
+          'Content-Type': 'application/json',
+          'X-Signature': await signRequest(await installKey(userId), canonical),
+          'X-Signature-Timestamp': timestamp,
+          'X-Signature-Nonce': nonce,
+        },
+        body: body === undefined ? undefined : payload,
+      })
+    },
+
+    dispose: () => mf.dispose(),
+  }
+}
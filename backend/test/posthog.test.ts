@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  answerFrames,
+  type CapturedEvent,
+  type MockLLM,
+  startMockLLM,
+  streamReply,
+} from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+})
+
+afterAll(async () => {
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const USAGE = { prompt_tokens: 30, completion_tokens: 4, cost: 0.0012 }
+const request = {
+  model: CHAT_MODEL,
+  systemPrompt: 'Coach de course',
+  prompt: 'FC moyenne 152 bpm sur 10,5 km, VFC 48 ms',
+}
+
+const capturedBy = (userId: string) => (event: CapturedEvent) => event.distinct_id === userId
+
+describe('default redaction', () => {
+  let worker: TestWorker
+
+  beforeAll(async () => {
+    worker = await startTestWorker(mock)
+  })
+
+  afterAll(async () => {
+    await worker?.dispose()
+  })
+
+  it('captures a generation with masked numbers, provider cost and no IP', async () => {
+    mock.enqueue(streamReply(answerFrames(['Allure régulière à 5:10/km'], USAGE)))
+
+    const response = await worker.post('/api/chat', 'posthog-user', request, {
+      'CF-Connecting-IP': '203.0.113.42',
+    })
+    const traceId = response.headers.get('X-Trace-ID')
+    await response.text()
+
+    const { event, properties } = await mock.waitForCapture(capturedBy('posthog-user'))
+
+    expect(event).toBe('$ai_generation')
+    expect(properties).toMatchObject({
+      $ai_trace_id: traceId,
+      $ai_model: CHAT_MODEL,
+      $ai_provider: 'openrouter',
+      $ai_input: [
+        { role: 'system', content: 'Coach de course' },
+        { role: 'user', content: 'FC moyenne # bpm sur # km, VFC # ms' },
+      ],
+      $ai_output: 'Allure régulière à #/km',
+      $ai_input_tokens: 30,
+      $ai_output_tokens: 4,
+      $ai_total_cost_usd: 0.0012,
+      cost_source: 'provider',
+      prompt_length: request.prompt.length,
+      text_redaction: 'truncate',
+      numbers_masked: true,
+      $geoip_disable: true,
+    })
+    expect(properties).not.toHaveProperty('$ip')
+  })
+
+  it('truncates long prompts', async () => {
+    const prompt = 'Semaine de fond. '.repeat(20)
+
+    await (await worker.post('/api/chat', 'truncate-user', { ...request, prompt })).text()
+
+    const { properties } = await mock.waitForCapture(capturedBy('truncate-user'))
+    const [, user] = properties.$ai_input as Array<{ content: string }>
+    expect(user.content).toBe(`${prompt.slice(0, 200)}…`)
+    expect(properties.prompt_length).toBe(prompt.length)
+  })
+
+  it('captures nothing for a user who opted out', async () => {
+    const optedOut = await worker.post('/api/chat', 'opted-out-user', request, {
+      'X-Analytics-Opt-Out': '1',
+    })
+    await optedOut.text()
+    // The opted-out generation ended first, its capture would have arrived before this one
+    await (await worker.post('/api/chat', 'opted-in-user', request)).text()
+
+    await mock.waitForCapture(capturedBy('opted-in-user'))
+    expect(mock.captures.filter(capturedBy('opted-out-user'))).toHaveLength(0)
+    expect(mock.completions).toHaveLength(2)
+  })
+})
+
+describe('configured redaction', () => {
+  let worker: TestWorker
+
+  beforeAll(async () => {
+    worker = await startTestWorker(mock, {
+      POSTHOG_TEXT_MODE: 'hash',
+      POSTHOG_IP_MODE: 'anonymize',
+    })
+  })
+
+  afterAll(async () => {
+    await worker?.dispose()
+  })
+
+  it('hashes free text and anonymizes the IP', async () => {
+    await (
+      await worker.post('/api/chat', 'hash-user', request, { 'CF-Connecting-IP': '203.0.113.42' })
+    ).text()
+
+    const { properties } = await mock.waitForCapture(capturedBy('hash-user'))
+    const [system, user] = properties.$ai_input as Array<{ content: string }>
+    expect(system.content).toMatch(/^sha256:[0-9a-f]{16}$/)
+    expect(user.content).toMatch(/^sha256:[0-9a-f]{16}$/)
+    expect(properties.$ai_output).toMatch(/^sha256:[0-9a-f]{16}$/)
+    expect(properties).toMatchObject({ text_redaction: 'hash', $ip: '203.0.113.0' })
+  })
+})
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { answerFrames, type MockLLM, startMockLLM, streamReply } from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  // Default grace period: a dropped client has 15 s to come back
+  worker = await startTestWorker(mock)
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const request = { model: CHAT_MODEL, systemPrompt: 'Coach', prompt: 'Et mon seuil ?' }
+const parts = Array.from({ length: 6 }, (_, index) => `mot${index} `)
+
+async function resume(
+  userId: string,
+  traceId: string | null,
+  headers: Record<string, string> = {}
+) {
+  return worker.fetch(`/api/chat/streams/${traceId}`, {
+    headers: { Authorization: `Bearer ${await worker.session(userId)}`, ...headers },
+  })
+}
+
+function sseEvents(body: string) {
+  return body
+    .split('\n\n')
+    .filter(Boolean)
+    .map((event) => ({
+      id: event.match(/^id: (\d+)$/m)?.[1],
+      data: event.match(/^data: (.*)$/m)?.[1],
+    }))
+}
+
+describe('stream resumption', () => {
+  it('replays the events after Last-Event-ID without calling the model again', async () => {
+    mock.enqueue(streamReply(answerFrames(parts)))
+
+    const response = await worker.post('/api/chat?format=sse', 'replay-user', request)
+    const traceId = response.headers.get('X-Trace-ID')
+    const live = sseEvents(await response.text())
+    expect(live.map((event) => event.id)).toEqual(['1', '2', '3', '4', '5', '6', undefined])
+
+    const resumed = await resume('replay-user', traceId, { 'Last-Event-ID': '4' })
+
+    expect(resumed.status).toBe(200)
+    expect(resumed.headers.get('X-Trace-ID')).toBe(traceId)
+    expect(sseEvents(await resumed.text())).toEqual(live.slice(4))
+    expect(mock.completions).toHaveLength(1)
+  })
+
+  it('keeps generating after a disconnect and resumes the stream live', async () => {
+    mock.enqueue(streamReply(answerFrames(parts), { delayMs: 150 }))
+
+    const response = await worker.post('/api/chat?format=sse', 'dropped-user', request)
+    const traceId = response.headers.get('X-Trace-ID')
+    const reader = response.body?.getReader()
+    const first = new TextDecoder().decode((await reader?.read())?.value)
+    await reader?.cancel()
+    const [{ id: lastEventId }] = sseEvents(first).slice(-1)
+
+    const resumed = await resume('dropped-user', traceId, { 'Last-Event-ID': lastEventId ?? '' })
+    const rest = sseEvents(await resumed.text())
+
+    expect(rest[0].id).toBe(String(Number(lastEventId) + 1))
+    expect(JSON.parse(rest.at(-1)?.data ?? '')).toMatchObject({ done: true })
+    const answer = [...sseEvents(first), ...rest]
+      .filter((event) => event.id)
+      .map((event) => JSON.parse(event.data ?? '').content)
+      .join('')
+    expect(answer).toBe(parts.join(''))
+    expect(mock.completions).toHaveLength(1)
+    expect(mock.completions[0].aborted).toBe(false)
+
+    const { properties } = await mock.waitForCapture(
+      (event) => event.distinct_id === 'dropped-user'
+    )
+    expect(properties).toMatchObject({
+      cancelled: false,
+      $ai_output: parts.join('').replace(/\d/g, '#'),
+    })
+  })
+
+  it("does not resume another user's generation", async () => {
+    mock.enqueue(streamReply(answerFrames(parts)))
+
+    const response = await worker.post('/api/chat?format=sse', 'owner-user', request)
+    await response.text()
+
+    const resumed = await resume('other-user', response.headers.get('X-Trace-ID'))
+
+    expect(resumed.status).toBe(404)
+    expect(await resumed.json()).toMatchObject({ code: 'stream_not_found' })
+  })
+
+  it('rejects a malformed Last-Event-ID', async () => {
+    const resumed = await resume('replay-user', crypto.randomUUID(), { 'Last-Event-ID': 'abc' })
+
+    expect(resumed.status).toBe(400)
+  })
+})
+
+describe('stream resumption during a stall', () => {
+  let stallWorker: TestWorker
+
+  beforeAll(async () => {
+    stallWorker = await startTestWorker(mock, {
+      STREAM_RESUME_GRACE_SECONDS: '0.2',
+      SSE_HEARTBEAT_SECONDS: '0.1',
+    })
+  })
+
+  afterAll(async () => {
+    await stallWorker?.dispose()
+  })
+
+  it('keeps a generation resumed before the grace period ended, with heartbeats', async () => {
+    // No frame for 800 ms after the first one: the grace period ends in between
+    mock.enqueue(streamReply(answerFrames(['Bonne ', 'séance']), { delayMs: 800 }))
+
+    const response = await stallWorker.post('/api/chat?format=sse', 'stalled-user', request)
+    const traceId = response.headers.get('X-Trace-ID')
+    const reader = response.body?.getReader()
+    await reader?.read()
+    await reader?.cancel()
+
+    const resumed = await stallWorker.fetch(`/api/chat/streams/${traceId}`, {
+      headers: {
+        Authorization: `Bearer ${await stallWorker.session('stalled-user')}`,
+        'Last-Event-ID': '1',
+      },
+    })
+    const body = await resumed.text()
+
+    expect(body).toContain(': keep-alive')
+    expect(body).toContain('data: {"content":"séance"}')
+    expect(body).toContain('event: done')
+    expect(mock.completions[0].aborted).toBe(false)
+  })
+})
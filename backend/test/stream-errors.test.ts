@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  answerFrames,
+  contentFrame,
+  DONE_FRAME,
+  type MockLLM,
+  sseFrame,
+  startMockLLM,
+  streamReply,
+  usageFrame,
+} from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock, {
+    UPSTREAM_FIRST_TOKEN_TIMEOUT_SECONDS: '0.5',
+    UPSTREAM_IDLE_TIMEOUT_SECONDS: '0.5',
+    SSE_HEARTBEAT_SECONDS: '0.1',
+  })
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const request = { model: CHAT_MODEL, systemPrompt: 'Coach', prompt: 'Quelle allure demain ?' }
+// OpenRouter keeps slow requests alive with comments, they are not tokens
+const PROCESSING_COMMENT = ': OPENROUTER PROCESSING\n\n'
+
+/** SSE events of a body, heartbeat comments apart */
+async function sseEvents(response: Response) {
+  return (await response.text())
+    .split('\n\n')
+    .filter((event) => event && !event.startsWith(':'))
+    .map((event) => ({
+      event: event.match(/^event: (.*)$/m)?.[1],
+      data: JSON.parse(event.match(/^data: (.*)$/m)?.[1] ?? 'null'),
+    }))
+}
+
+function chat(userId: string, format = 'sse', body: unknown = request) {
+  return worker.post(`/api/chat?format=${format}`, userId, body)
+}
+
+describe('upstream timeouts', () => {
+  it('fails with upstream_timeout when no token comes first', async () => {
+    mock.enqueue(
+      streamReply([PROCESSING_COMMENT, ...answerFrames(['Trop tard'])], { delayMs: 1500 })
+    )
+
+    const events = await sseEvents(await chat('first-token-user'))
+
+    expect(events).toEqual([
+      {
+        event: 'error',
+        data: { code: 'upstream_timeout', message: 'AI provider stopped responding' },
+      },
+    ])
+    await vi.waitFor(() => expect(mock.completions[0].aborted).toBe(true), { timeout: 1000 })
+  })
+
+  it('fails with upstream_timeout on a stall between tokens, after heartbeats', async () => {
+    mock.enqueue(streamReply(answerFrames(['Bonne ', 'séance']), { delayMs: 1500 }))
+
+    const response = await chat('idle-user')
+    const body = await response.clone().text()
+    const events = await sseEvents(response)
+
+    expect(body).toContain(': keep-alive\n\n')
+    expect(events).toEqual([
+      { event: undefined, data: { content: 'Bonne ' } },
+      { event: 'error', data: expect.objectContaining({ code: 'upstream_timeout' }) },
+    ])
+  })
+
+  it('answers 504 to a JSON request', async () => {
+    mock.enqueue(
+      streamReply([PROCESSING_COMMENT, ...answerFrames(['Trop tard'])], { delayMs: 1500 })
+    )
+
+    const response = await chat('json-timeout-user', 'json')
+
+    expect(response.status).toBe(504)
+    expect(await response.json()).toMatchObject({ code: 'upstream_timeout' })
+  })
+})
+
+describe('typed stream errors', () => {
+  it('ends a completed stream with the usage', async () => {
+    const usage = { prompt_tokens: 10, completion_tokens: 2, cost: 0.0003 }
+    mock.enqueue(streamReply(answerFrames(['Bonne ', 'séance'], usage)))
+
+    const events = await sseEvents(await chat('done-user'))
+
+    expect(events.at(-1)).toEqual({
+      event: 'done',
+      data: { done: true, usage: { ...usage, total_tokens: 12 } },
+    })
+  })
+
+  it('maps an in-band 429 to rate_limited', async () => {
+    mock.enqueue(
+      streamReply([
+        contentFrame('Bonne '),
+        sseFrame({ error: { code: 429, message: 'Rate limit exceeded upstream' } }),
+      ])
+    )
+
+    const events = await sseEvents(await chat('in-band-429-user'))
+
+    expect(events.at(-1)).toEqual({
+      event: 'error',
+      data: { code: 'rate_limited', message: expect.any(String) },
+    })
+  })
+
+  it('reports content filtering instead of a completed answer', async () => {
+    mock.enqueue(
+      streamReply([
+        contentFrame('Bonne '),
+        sseFrame({ choices: [{ delta: {}, finish_reason: 'content_filter' }] }),
+        usageFrame({ prompt_tokens: 10, completion_tokens: 1 }),
+        DONE_FRAME,
+      ])
+    )
+
+    const lines = (await (await chat('filtered-user', 'ndjson')).text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+
+    expect(lines).toEqual([
+      { content: 'Bonne ' },
+      { done: false, error: { code: 'content_filtered', message: expect.any(String) } },
+    ])
+    const { properties } = await mock.waitForCapture(
+      (event) => event.distinct_id === 'filtered-user'
+    )
+    expect(properties).toMatchObject({ error_code: 'content_filtered' })
+  })
+})
@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  answerFrames,
+  type MockLLM,
+  startMockLLM,
+  streamReply,
+  toolCallFrames,
+} from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock)
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const DAY_MS = 24 * 3600 * 1000
+const workout = {
+  id: 'A1B2C3D4-0000-4000-8000-000000000001',
+  startDate: new Date(Date.now() - 2 * DAY_MS).toISOString(),
+  duration: 2700,
+  distance: 10_000,
+  averagePace: 4.5,
+  splits: [{ kilometer: 1, distance: 1000, time: 270, pace: 4.5 }],
+}
+const request = {
+  model: CHAT_MODEL,
+  systemPrompt: 'Coach',
+  prompt: 'Comment se passe ma semaine ?',
+}
+
+interface SentMessage {
+  role: string
+  content: string
+  tool_call_id?: string
+}
+
+/** Messages of the model call `index`, as the mock received them */
+function sentMessages(index: number): SentMessage[] {
+  return (mock.completions[index].body as { messages: SentMessage[] }).messages
+}
+
+function toolResult(index: number, callId: string) {
+  const message = sentMessages(index).find((candidate) => candidate.tool_call_id === callId)
+  return JSON.parse(message?.content ?? 'null')
+}
+
+describe('tool calling', () => {
+  it('answers tool calls from the uploaded workouts', async () => {
+    mock.enqueue(
+      streamReply(
+        toolCallFrames([
+          { id: 'call_week', name: 'get_workouts', arguments: { range: 'last_7_days' } },
+          { id: 'call_splits', name: 'get_splits', arguments: { workoutId: workout.id } },
+        ])
+      ),
+      streamReply(answerFrames(['Semaine ', 'solide']))
+    )
+
+    const response = await worker.post('/api/chat?format=ndjson', 'tools-user', {
+      ...request,
+      tools: { workouts: [workout] },
+    })
+    const lines = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+
+    expect(lines).toEqual([
+      { content: 'Semaine ' },
+      { content: 'solide' },
+      { done: true, usage: expect.objectContaining({ prompt_tokens: 52, completion_tokens: 10 }) },
+    ])
+    // Only the answer step reported a cost: the whole request is priced from the tokens
+    expect(lines[2].usage).not.toHaveProperty('cost')
+    expect(mock.completions).toHaveLength(2)
+    expect(mock.completions[0].body).toMatchObject({
+      tools: expect.arrayContaining([
+        expect.objectContaining({ function: expect.objectContaining({ name: 'get_workouts' }) }),
+      ]),
+    })
+    const { splits, ...summary } = workout
+    expect(toolResult(1, 'call_week')).toEqual({ range: 'last_7_days', workouts: [summary] })
+    expect(toolResult(1, 'call_splits')).toEqual({ workoutId: workout.id, splits })
+  })
+
+  it('tells the model when a call has no data or bad arguments', async () => {
+    mock.enqueue(
+      streamReply(
+        toolCallFrames([
+          { id: 'call_sleep', name: 'get_recovery', arguments: { date: '2026-10-17' } },
+          { id: 'call_bad', name: 'get_workouts', arguments: { range: 'forever' } },
+        ])
+      ),
+      streamReply(answerFrames(['Pas de données']))
+    )
+
+    const response = await worker.post('/api/chat?format=json', 'no-data-user', {
+      ...request,
+      tools: { workouts: [workout] },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ response: 'Pas de données' })
+    expect(toolResult(1, 'call_sleep')).toEqual({ error: 'No data available' })
+    expect(toolResult(1, 'call_bad')).toMatchObject({ error: 'Invalid arguments' })
+  })
+
+  it('asks the app for the data it did not upload', async () => {
+    const recovery = { date: '2026-10-17', restingHeartRate: 48, hrv: 62 }
+    mock.enqueue(
+      streamReply(
+        toolCallFrames([
+          { id: 'call_sleep', name: 'get_recovery', arguments: { date: recovery.date } },
+        ])
+      ),
+      streamReply(answerFrames(['Bien récupéré']))
+    )
+
+    const response = await worker.post('/api/chat?format=sse', 'client-tools-user', {
+      ...request,
+      tools: { clientResolution: true },
+    })
+    const traceId = response.headers.get('X-Trace-ID')
+    const reader = response.body?.getReader()
+    const decoder = new TextDecoder()
+    let body = ''
+    while (!body.includes('event: tool_request')) {
+      const { value, done } = (await reader?.read()) ?? { done: true }
+      if (done) {
+        break
+      }
+      body += decoder.decode(value, { stream: true })
+    }
+
+    const event = body.split('\n\n').find((frame) => frame.includes('event: tool_request'))
+    expect(JSON.parse(event?.match(/^data: (.*)$/m)?.[1] ?? 'null')).toEqual({
+      calls: [{ id: 'call_sleep', name: 'get_recovery', arguments: { date: recovery.date } }],
+    })
+
+    const submitted = await worker.post(
+      `/api/chat/streams/${traceId}/tool-results`,
+      'client-tools-user',
+      { results: { call_sleep: recovery } }
+    )
+    expect(submitted.status).toBe(204)
+
+    for (;;) {
+      const { value, done } = (await reader?.read()) ?? { done: true }
+      if (done) {
+        break
+      }
+      body += decoder.decode(value, { stream: true })
+    }
+    expect(body).toContain('data: {"content":"Bien récupéré"}')
+    expect(body).toContain('event: done')
+    expect(toolResult(1, 'call_sleep')).toEqual(recovery)
+  })
+})
+
+describe('tool calling validation', () => {
+  it('rejects an invalid tools payload', async () => {
+    const response = await worker.post('/api/chat', 'invalid-tools-user', {
+      ...request,
+      tools: { workouts: [{ ...workout, id: undefined }] },
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ message: 'Invalid tools payload' })
+  })
+
+  it('rejects tools combined with responseFormat', async () => {
+    const response = await worker.post('/api/chat?format=json', 'invalid-tools-user', {
+      ...request,
+      tools: {},
+      responseFormat: { type: 'json_schema', name: 'week', schema: { type: 'object' } },
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      message: 'tools cannot be combined with responseFormat',
+    })
+  })
+
+  it('refuses tool results nobody is waiting for', async () => {
+    const response = await worker.post(
+      `/api/chat/streams/${crypto.randomUUID()}/tool-results`,
+      'invalid-tools-user',
+      { results: {} }
+    )
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ code: 'no_pending_tool_calls' })
+  })
+})
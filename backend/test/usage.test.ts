@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { answerFrames, type MockLLM, startMockLLM, streamReply } from './helpers/mock-llm'
+import { ADMIN_SECRET, CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock)
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+interface UsageStats {
+  requests: number
+  errors: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+  latencyMs: { p50: number | null; p95: number | null }
+}
+
+interface UsageReport {
+  totals: UsageStats
+  groups: Array<UsageStats & { key: string }>
+}
+
+async function admin<T>(path: string): Promise<T> {
+  const response = await worker.fetch(path, { headers: { 'X-Admin-Key': ADMIN_SECRET } })
+  expect(response.status).toBe(200)
+  return (await response.json()) as T
+}
+
+/** Chat requests answered with 12 input tokens, one output token per part and $0.0001 each */
+async function chat(userId: string, count: number) {
+  for (let index = 0; index < count; index++) {
+    mock.enqueue(streamReply(answerFrames(['Bien'])))
+    const response = await worker.post('/api/chat?format=json', userId, {
+      model: CHAT_MODEL,
+      systemPrompt: 'Coach',
+      prompt: 'Comment était ma course ?',
+    })
+    expect(response.status).toBe(200)
+  }
+}
+
+/** Usage rows are written after the response: wait for the expected request count */
+async function userUsage(userId: string, requests: number): Promise<UsageReport> {
+  let usage: UsageReport | undefined
+  await vi.waitFor(
+    async () => {
+      usage = (await admin<{ usage: UsageReport }>(`/admin/users/${userId}`)).usage
+      expect(usage.totals.requests).toBe(requests)
+    },
+    { timeout: 2000 }
+  )
+  return usage as UsageReport
+}
+
+describe('usage report', () => {
+  it('counts requests and tokens, with costs from the cost ledger', async () => {
+    await chat('usage-user', 2)
+
+    const usage = await userUsage('usage-user', 2)
+
+    expect(usage.totals).toMatchObject({ requests: 2, errors: 0, inputTokens: 24, outputTokens: 2 })
+    expect(usage.totals.costUsd).toBeCloseTo(0.0002)
+    expect(usage.totals.latencyMs.p50).toEqual(expect.any(Number))
+    expect(usage.groups).toEqual([
+      expect.objectContaining({ key: CHAT_MODEL, requests: 2, costUsd: usage.totals.costUsd }),
+    ])
+  })
+
+  it('keeps the usage of an erased user under an anonymous ID no user can have', async () => {
+    await chat('usage-erased-user', 1)
+    await chat('erased', 1)
+    await userUsage('usage-erased-user', 1)
+    await userUsage('erased', 1)
+
+    const erased = await worker.signed('DELETE', '/api/conversations', 'usage-erased-user')
+    expect(erased.status).toBe(200)
+
+    expect((await userUsage('usage-erased-user', 0)).totals.costUsd).toBe(0)
+    expect((await userUsage('erased', 1)).totals.costUsd).toBeCloseTo(0.0001)
+    const { groups } = await admin<UsageReport>('/admin/usage?groupBy=user')
+    expect(groups).toContainEqual(
+      expect.objectContaining({ key: ':erased', requests: 1, costUsd: expect.closeTo(0.0001) })
+    )
+  })
+})
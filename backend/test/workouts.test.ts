@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  answerFrames,
+  type MockLLM,
+  startMockLLM,
+  streamReply,
+  toolCallFrames,
+} from './helpers/mock-llm'
+import { CHAT_MODEL, startTestWorker, type TestWorker } from './helpers/worker'
+
+let mock: MockLLM
+let worker: TestWorker
+
+beforeAll(async () => {
+  mock = await startMockLLM()
+  worker = await startTestWorker(mock)
+})
+
+afterAll(async () => {
+  await worker?.dispose()
+  await mock?.close()
+})
+
+beforeEach(() => {
+  mock.reset()
+})
+
+const DAY_MS = 24 * 3600 * 1000
+
+function workout(day: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `0D8C1F52-6B1A-4C3E-9A2B-${String(day).padStart(12, '0')}`,
+    workoutType: 'running',
+    startDate: new Date(Date.now() - day * DAY_MS).toISOString(),
+    duration: 3000,
+    distance: 10_000,
+    averageHeartRate: 152,
+    heartRateZones: { zone2: 1200, zone3: 1500, maxHeartRate: 190 },
+    averagePace: 5,
+    runningPower: 260,
+    groundContactTime: 245,
+    totalElevationAscent: 85,
+    splits: [
+      { kilometer: 1, distance: 1000, time: 305, pace: 5.08, averageHeartRate: 140 },
+      { kilometer: 2, distance: 1000, time: 298, pace: 4.97 },
+    ],
+    ...overrides,
+  }
+}
+
+function sync(userId: string, workouts: unknown[]) {
+  return worker.signed('POST', '/api/workouts/sync', userId, { workouts })
+}
+
+async function history(userId: string, query = '') {
+  const response = await worker.signed('GET', `/api/workouts${query}`, userId)
+  expect(response.status).toBe(200)
+  return ((await response.json()) as { workouts: Array<Record<string, unknown>> }).workouts
+}
+
+describe('workout sync', () => {
+  it('stores workouts with their metrics and splits', async () => {
+    const synced = workout(3)
+
+    const response = await sync('sync-user', [synced])
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ synced: 1 })
+    expect(await history('sync-user')).toEqual([synced])
+  })
+
+  it('is idempotent by HealthKit UUID', async () => {
+    await sync('idempotent-user', [workout(1), workout(2)])
+
+    const edited = workout(1, {
+      distance: 10_500,
+      splits: [{ kilometer: 1, distance: 1000, time: 300, pace: 5 }],
+    })
+    await sync('idempotent-user', [edited, workout(2)])
+
+    const stored = await history('idempotent-user')
+    expect(stored).toHaveLength(2)
+    expect(stored[0]).toEqual(edited)
+  })
+
+  it('filters by start date, newest first', async () => {
+    await sync('range-user', [workout(40), workout(10), workout(2)])
+    const from = new Date(Date.now() - 30 * DAY_MS).toISOString()
+    const to = new Date(Date.now() - 5 * DAY_MS).toISOString()
+
+    const all = await history('range-user')
+    const ranged = await history('range-user', `?from=${from}&to=${to}`)
+
+    expect(all.map((stored) => stored.id)).toEqual([workout(2).id, workout(10).id, workout(40).id])
+    expect(ranged.map((stored) => stored.id)).toEqual([workout(10).id])
+  })
+
+  it("keeps each user's history apart and erases it", async () => {
+    await sync('erase-user', [workout(1), workout(2)])
+    await sync('other-history-user', [workout(1)])
+
+    const erased = await worker.signed('DELETE', '/api/workouts', 'erase-user')
+
+    expect(await erased.json()).toEqual({ deleted: 2 })
+    expect(await history('erase-user')).toEqual([])
+    expect(await history('other-history-user')).toHaveLength(1)
+  })
+
+  it('rejects invalid payloads and unsigned requests', async () => {
+    const invalid = await sync('invalid-sync-user', [workout(1, { id: 'not-a-uuid' })])
+    expect(invalid.status).toBe(400)
+
+    const unsigned = await worker.post('/api/workouts/sync', 'invalid-sync-user', {
+      workouts: [workout(1)],
+    })
+    expect(unsigned.status).toBe(401)
+    expect(await unsigned.json()).toMatchObject({ code: 'missing_signature' })
+  })
+})
+
+const splitsQuestion = {
+  model: CHAT_MODEL,
+  systemPrompt: 'Coach',
+  prompt: 'Et mon dernier 10 km ?',
+  tools: {},
+}
+
+/** Result of the tool call `callId`, as sent to the model on its second call */
+function toolResult(callId: string) {
+  const messages = (mock.completions[1].body as { messages: Array<Record<string, string>> })
+    .messages
+  const result = messages.find((message) => message.tool_call_id === callId)
+  return JSON.parse(result?.content ?? 'null')
+}
+
+describe('workout history in tool calls', () => {
+  it('answers get_splits from the synced history', async () => {
+    const synced = workout(5)
+    await sync('history-tools-user', [synced])
+    mock.enqueue(
+      streamReply(
+        toolCallFrames([
+          { id: 'call_splits', name: 'get_splits', arguments: { workoutId: synced.id } },
+        ])
+      ),
+      streamReply(answerFrames(['Départ prudent']))
+    )
+
+    const response = await worker.signed(
+      'POST',
+      '/api/chat?format=json',
+      'history-tools-user',
+      splitsQuestion
+    )
+
+    expect(await response.json()).toMatchObject({ response: 'Départ prudent' })
+    expect(toolResult('call_splits')).toEqual({ workoutId: synced.id, splits: synced.splits })
+  })
+
+  it('does not read the history for an unsigned request', async () => {
+    const synced = workout(6)
+    await sync('unsigned-tools-user', [synced])
+    mock.enqueue(
+      streamReply(
+        toolCallFrames([
+          { id: 'call_splits', name: 'get_splits', arguments: { workoutId: synced.id } },
+        ])
+      ),
+      streamReply(answerFrames(['Pas de données']))
+    )
+
+    const response = await worker.post(
+      '/api/chat?format=json',
+      'unsigned-tools-user',
+      splitsQuestion
+    )
+
+    expect(response.status).toBe(200)
+    expect(toolResult('call_splits')).toEqual({ error: 'No data available' })
+  })
+})
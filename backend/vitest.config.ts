@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    globalSetup: ['test/global-setup.ts'],
+    // Each file starts its own workerd instance, one at a time
+    fileParallelism: false,
+    testTimeout: 20_000,
+    hookTimeout: 90_000,
+  },
+})